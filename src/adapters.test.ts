@@ -0,0 +1,104 @@
+import { djangoAdapter, arrayAdapter, drfAdapter, jsonApiAdapter, createCursorAdapter } from './adapters';
+
+describe('djangoAdapter', () => {
+  it('should map the Django envelope to items and meta', () => {
+    const result = djangoAdapter({ objects: [{ id: 1 }], current_page: 2, num_pages: 3, total_count: 21 });
+    expect(result).toEqual({
+      items: [{ id: 1 }],
+      meta: { currentPage: 2, totalPages: 3, totalCount: 21 },
+    });
+  });
+
+  it('should fall back to defaults for missing fields', () => {
+    expect(djangoAdapter({})).toEqual({
+      items: [],
+      meta: { currentPage: 1, totalPages: 1, totalCount: 0 },
+    });
+  });
+});
+
+describe('arrayAdapter', () => {
+  it('should treat the whole response as a single page', () => {
+    expect(arrayAdapter([{ id: 1 }, { id: 2 }])).toEqual({
+      items: [{ id: 1 }, { id: 2 }],
+      meta: { currentPage: 1, totalPages: 1, totalCount: 2 },
+    });
+  });
+
+  it('should return no items for non-array responses', () => {
+    expect(arrayAdapter({ objects: [] }).items).toEqual([]);
+  });
+});
+
+describe('drfAdapter', () => {
+  const page = (n: number) => Array.from({ length: n }, (_, i) => ({ id: i }));
+
+  it('should handle the first page', () => {
+    const result = drfAdapter({ count: 25, next: 'http://api/users/?page=2', previous: null, results: page(10) });
+    expect(result.meta).toEqual({
+      currentPage: 1,
+      totalPages: 3,
+      totalCount: 25,
+      next: 'http://api/users/?page=2',
+      previous: null,
+    });
+  });
+
+  it('should derive the current page from the previous link', () => {
+    // DRF drops `page=1` from the link back to the first page
+    expect(drfAdapter({ count: 25, next: 'http://api/users/?page=3', previous: 'http://api/users/', results: page(10) }).meta)
+      .toMatchObject({ currentPage: 2, totalPages: 3 });
+    expect(drfAdapter({ count: 25, next: null, previous: 'http://api/users/?page=2', results: page(5) }).meta)
+      .toMatchObject({ currentPage: 3, totalPages: 3 });
+  });
+});
+
+describe('jsonApiAdapter', () => {
+  it('should flatten resources and read meta and links', () => {
+    const result = jsonApiAdapter({
+      data: [{ id: '1', type: 'users', attributes: { name: 'Ada' } }],
+      meta: { total: 40, page: { current: 2, total: 4 } },
+      links: { next: '/users?page[number]=3', prev: '/users?page[number]=1' },
+    });
+    expect(result).toEqual({
+      items: [{ id: '1', name: 'Ada' }],
+      meta: {
+        currentPage: 2,
+        totalPages: 4,
+        totalCount: 40,
+        next: '/users?page[number]=3',
+        previous: '/users?page[number]=1',
+      },
+    });
+  });
+
+  it('should fall back to defaults when meta and links are missing', () => {
+    expect(jsonApiAdapter({ data: [] }).meta).toEqual({
+      currentPage: 1,
+      totalPages: 1,
+      totalCount: 0,
+      next: null,
+      previous: null,
+    });
+  });
+});
+
+describe('createCursorAdapter', () => {
+  it('should read cursors with the default keys', () => {
+    const adapter = createCursorAdapter();
+    expect(adapter({ results: [{ id: 1 }], next_cursor: 'abc', previous_cursor: null }).meta).toEqual({
+      currentPage: 1,
+      totalPages: 1,
+      totalCount: 1,
+      nextCursor: 'abc',
+      previousCursor: null,
+    });
+  });
+
+  it('should support custom keys', () => {
+    const adapter = createCursorAdapter({ itemsKey: 'edges', nextCursorKey: 'after', totalCountKey: 'total' });
+    const result = adapter({ edges: [{ id: 1 }, { id: 2 }], after: 'xyz', total: 50 });
+    expect(result.items).toHaveLength(2);
+    expect(result.meta).toMatchObject({ nextCursor: 'xyz', previousCursor: null, totalCount: 50 });
+  });
+});
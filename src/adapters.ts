@@ -0,0 +1,123 @@
+// adapters/responseAdapters.ts
+
+// Define the structure for pagination metadata
+export interface Meta {
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  // Cursor-based APIs
+  nextCursor?: string | null;
+  previousCursor?: string | null;
+  // Link-based APIs (DRF, JSON:API)
+  next?: string | null;
+  previous?: string | null;
+}
+
+// The normalized result of a list request
+export interface ListResult<T> {
+  items: T[];
+  meta: Meta;
+}
+
+// Maps a raw list response body to items plus pagination metadata
+export type ResponseAdapter<T = any> = (data: any) => ListResult<T>;
+
+// Read the `page` query parameter from a pagination link, if present
+const getPageFromLink = (link?: string | null): number | undefined => {
+  if (!link) return undefined;
+  const match = /[?&]page=(\d+)/.exec(link);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Django-style envelope: { objects, current_page, num_pages, total_count }
+// This is the default adapter used by createGenericStore.
+export const djangoAdapter: ResponseAdapter = (data) => {
+  const items = data?.objects || [];
+  return {
+    items,
+    meta: {
+      currentPage: data?.current_page || 1,
+      totalPages: data?.num_pages || 1,
+      totalCount: data?.total_count || items.length,
+    },
+  };
+};
+
+// Plain array responses without any pagination
+export const arrayAdapter: ResponseAdapter = (data) => {
+  const items = Array.isArray(data) ? data : [];
+  return {
+    items,
+    meta: { currentPage: 1, totalPages: 1, totalCount: items.length },
+  };
+};
+
+// Django REST Framework page number pagination: { results, count, next, previous }
+// The current page is derived from the `previous` link since DRF doesn't return it.
+export const drfAdapter: ResponseAdapter = (data) => {
+  const items = data?.results || [];
+  const next = data?.next ?? null;
+  const previous = data?.previous ?? null;
+  const totalCount = data?.count ?? items.length;
+  // DRF omits `page` from the previous link when it points to page 1
+  const currentPage = previous ? (getPageFromLink(previous) || 1) + 1 : 1;
+  // Only non-last pages are guaranteed to be full, so use them to infer the page size
+  const totalPages = next && items.length
+    ? Math.ceil(totalCount / items.length)
+    : currentPage;
+  return {
+    items,
+    meta: { currentPage, totalPages, totalCount, next, previous },
+  };
+};
+
+// JSON:API documents: { data: [{ id, type, attributes }], meta, links }
+// Resources are flattened to `{ id, ...attributes }`.
+export const jsonApiAdapter: ResponseAdapter = (data) => {
+  const resources: any[] = Array.isArray(data?.data) ? data.data : [];
+  const items = resources.map(resource => ({ id: resource.id, ...(resource.attributes || {}) }));
+  const meta = data?.meta || {};
+  const links = data?.links || {};
+  const next = links.next ?? null;
+  const previous = links.prev ?? null;
+  const totalCount = meta.total ?? meta.totalCount ?? meta.count ?? items.length;
+  const currentPage = meta.page?.current ?? meta.currentPage ?? getPageFromLink(links.self) ?? 1;
+  const totalPages = meta.page?.total ?? meta.totalPages ?? meta.pageCount
+    ?? getPageFromLink(links.last) ?? currentPage;
+  return {
+    items,
+    meta: { currentPage, totalPages, totalCount, next, previous },
+  };
+};
+
+// Keys to read from a cursor-paginated response
+export interface CursorAdapterOptions {
+  itemsKey?: string;
+  nextCursorKey?: string;
+  previousCursorKey?: string;
+  totalCountKey?: string;
+}
+
+// Cursor-based pagination, e.g. { results, next_cursor, previous_cursor }
+// Cursor APIs have no page numbers, so currentPage/totalPages stay at 1.
+export const createCursorAdapter = (options: CursorAdapterOptions = {}): ResponseAdapter => {
+  const {
+    itemsKey = 'results',
+    nextCursorKey = 'next_cursor',
+    previousCursorKey = 'previous_cursor',
+    totalCountKey = 'total_count',
+  } = options;
+  return (data) => {
+    const items = data?.[itemsKey] || [];
+    return {
+      items,
+      meta: {
+        currentPage: 1,
+        totalPages: 1,
+        totalCount: data?.[totalCountKey] ?? items.length,
+        nextCursor: data?.[nextCursorKey] ?? null,
+        previousCursor: data?.[previousCursorKey] ?? null,
+      },
+    };
+  };
+};
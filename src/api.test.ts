@@ -1,5 +1,7 @@
 import axios, { AxiosRequestConfig } from 'axios';
-import { initApiClient, apiClient, axiosInstance as apiInstanceInternal } from './api';
+import { initApiClient, apiClient, createApiClient, axiosInstance as apiInstanceInternal } from './api';
+import { ApiError } from './errors';
+import { drfAdapter } from './adapters';
 
 // Mock the entire axios module
 jest.mock('axios');
@@ -59,6 +61,13 @@ describe('initApiClient', () => {
     });
   });
 
+  it('should expose the responseAdapter without passing it to axios', () => {
+    initApiClient({ baseURL: 'http://test.com', responseAdapter: drfAdapter });
+
+    expect(mockedAxios.create.mock.calls[0][0]).not.toHaveProperty('responseAdapter');
+    expect(apiClient.responseAdapter).toBe(drfAdapter);
+  });
+
   it('should allow overriding default axios config', () => {
       const config = {
         baseURL: 'http://test.com',
@@ -149,6 +158,75 @@ describe('apiClient (after initialization)', () => {
     expect(result).toEqual(mockResponse.data);
   });
 
+  // Test PATCH
+  it('PATCH should call axiosInstance.request with correct method, url, and data', async () => {
+    const payload = { name: 'Patched User' };
+    const mockResponse = { data: { id: 2, ...payload } };
+    mockAxiosInstance.request.mockResolvedValue(mockResponse);
+
+    const result = await apiClient.patch(`${endpoint}/2`, payload);
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'patch',
+      url: `${endpoint}/2`,
+      data: payload
+    });
+    expect(result).toEqual(mockResponse.data);
+  });
+
+  // Test HEAD
+  it('HEAD should send params and resolve to the response headers', async () => {
+    mockAxiosInstance.request.mockResolvedValue({ data: '', status: 200, headers: { 'x-total-count': '42' } });
+
+    const result = await apiClient.head(endpoint, { active: true });
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'head',
+      url: endpoint,
+      params: { active: true }
+    });
+    expect(result).toEqual({ 'x-total-count': '42' });
+  });
+
+  // Test OPTIONS
+  it('OPTIONS should call axiosInstance.request and return the response body', async () => {
+    const mockResponse = { data: { actions: { POST: {} } } };
+    mockAxiosInstance.request.mockResolvedValue(mockResponse);
+
+    const result = await apiClient.options(endpoint);
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'options',
+      url: endpoint,
+      params: {}
+    });
+    expect(result).toEqual(mockResponse.data);
+  });
+
+  // Test the generic request escape hatch
+  it('request should send an arbitrary request through the pipeline', async () => {
+    const mockResponse = { data: { ok: true } };
+    mockAxiosInstance.request.mockResolvedValue(mockResponse);
+
+    const result = await apiClient.request({
+      method: 'post',
+      url: `${endpoint}/search`,
+      params: { page: 2 },
+      data: { q: 'ada' },
+      headers: { 'X-Search': '1' },
+      options: { retry: false },
+    });
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'post',
+      url: `${endpoint}/search`,
+      params: { page: 2 },
+      data: { q: 'ada' },
+      headers: { 'X-Search': '1' },
+    });
+    expect(result).toEqual(mockResponse.data);
+  });
+
   // Test postFile
   it('postFile should call axiosInstance.post with FormData and multipart header', async () => {
     const formData = new FormData();
@@ -164,6 +242,51 @@ describe('apiClient (after initialization)', () => {
     expect(result).toEqual(mockResponse.data);
   });
 
+  it('upload should send files and fields with the given method and report progress', async () => {
+    const file = new Blob(['content']);
+    const progress: any[] = [];
+    mockAxiosInstance.put.mockImplementation(async (_url, _data, config) => {
+      config.onUploadProgress({ loaded: 50, total: 100 });
+      return { data: { id: 1 } };
+    });
+
+    const result = await apiClient.upload(endpoint, file, {
+      method: 'put',
+      fields: { title: 'Report' },
+      onUploadProgress: (event) => progress.push(event),
+    });
+
+    const [url, form, config] = mockAxiosInstance.put.mock.calls[0];
+    expect(url).toBe(endpoint);
+    expect(form.getAll('file')).toHaveLength(1);
+    expect(form.get('title')).toBe('Report');
+    expect(config.headers).toEqual({ 'Content-Type': 'multipart/form-data' });
+    expect(progress).toEqual([{ loaded: 50, total: 100, percent: 50 }]);
+    expect(result).toEqual({ id: 1 });
+  });
+
+  it('download should request a blob and report progress', async () => {
+    const blob = new Blob(['report']);
+    const progress: any[] = [];
+    mockAxiosInstance.request.mockImplementation(async (config) => {
+      config.onDownloadProgress({ loaded: 6 });
+      return { data: blob };
+    });
+
+    const result = await apiClient.download('/reports/1', { format: 'pdf' }, {
+      onDownloadProgress: (event) => progress.push(event),
+    });
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'get',
+      url: '/reports/1',
+      params: { format: 'pdf' },
+      responseType: 'blob',
+    }));
+    expect(progress).toEqual([{ loaded: 6, total: null, percent: null }]);
+    expect(result).toBe(blob);
+  });
+
   // Test Error Handling - API Error (e.g., 4xx, 5xx)
   it('should handle API errors (error.response)', async () => {
     // Temporarily suppress console.error for this expected error log
@@ -174,7 +297,16 @@ describe('apiClient (after initialization)', () => {
     };
     mockAxiosInstance.request.mockRejectedValue(mockApiError);
 
-    await expect(apiClient.get(endpoint)).rejects.toEqual(mockApiError.response.data);
+    const error = await apiClient.get(endpoint).catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      kind: 'http',
+      status: 404,
+      method: 'get',
+      url: endpoint,
+      data: mockApiError.response.data,
+      message: 'Not Found',
+    });
     expect(mockAxiosInstance.request).toHaveBeenCalledWith({
         method: 'get',
         url: endpoint,
@@ -197,6 +329,7 @@ describe('apiClient (after initialization)', () => {
     mockAxiosInstance.request.mockRejectedValue(mockNetworkError);
 
     await expect(apiClient.get(endpoint)).rejects.toThrow('No response from server');
+    await expect(apiClient.get(endpoint)).rejects.toMatchObject({ kind: 'network', method: 'get', url: endpoint });
      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
         method: 'get',
         url: endpoint,
@@ -216,6 +349,7 @@ describe('apiClient (after initialization)', () => {
     mockAxiosInstance.request.mockRejectedValue(mockSetupError);
 
     await expect(apiClient.get(endpoint)).rejects.toThrow(`Request failed: ${mockSetupError.message}`);
+    await expect(apiClient.get(endpoint)).rejects.toMatchObject({ kind: 'setup', originalError: mockSetupError });
      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
         method: 'get',
         url: endpoint,
@@ -225,9 +359,355 @@ describe('apiClient (after initialization)', () => {
     // Restore console.error
     consoleErrorSpy.mockRestore();
   });
+
+  // Test Error Handling - Timeout
+  it('should classify timeouts', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAxiosInstance.request.mockRejectedValue({ code: 'ECONNABORTED', request: {}, message: 'timeout of 5000ms exceeded' });
+
+    await expect(apiClient.post(endpoint, {})).rejects.toMatchObject({
+      kind: 'timeout',
+      method: 'post',
+      message: 'Request timed out',
+    });
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  // Test Error Handling - Cancellation
+  it('should classify cancelled requests without logging them', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAxiosInstance.request.mockRejectedValue({ code: 'ERR_CANCELED', name: 'CanceledError', message: 'canceled' });
+
+    await expect(apiClient.get(endpoint)).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  // Test Error Handling - postFile
+  it('should throw ApiError with response headers from postFile', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAxiosInstance.post.mockRejectedValue({
+      response: { status: 413, data: 'Too large', headers: { 'content-type': 'text/plain' } }
+    });
+
+    await expect(apiClient.postFile(endpoint, new FormData())).rejects.toMatchObject({
+      kind: 'http',
+      status: 413,
+      method: 'post',
+      url: endpoint,
+      headers: { 'content-type': 'text/plain' },
+      message: 'Request failed with status code 413',
+    });
+
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('createApiClient', () => {
+  // A second mock instance so we can tell the clients apart
+  const billingAxiosInstance = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    request: jest.fn(),
+  };
+
+  it('should create an independent axios instance with library defaults', () => {
+    createApiClient({ baseURL: 'http://billing.test.com' });
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({
+      baseURL: 'http://billing.test.com',
+      withCredentials: true,
+      headers: { 'Content-Type': 'application/json' },
+    }));
+  });
+
+  it('should route requests to its own instance, not the default one', async () => {
+    initApiClient({ baseURL: 'http://main.test.com' });
+    mockedAxios.create.mockReturnValueOnce(billingAxiosInstance as any);
+    const billingClient = createApiClient({ baseURL: 'http://billing.test.com' });
+
+    billingAxiosInstance.request.mockResolvedValue({ data: { total: 10 } });
+    mockAxiosInstance.request.mockResolvedValue({ data: [{ id: 1 }] });
+
+    await expect(billingClient.get('/invoices')).resolves.toEqual({ total: 10 });
+    await expect(apiClient.get('/users')).resolves.toEqual([{ id: 1 }]);
+
+    expect(billingAxiosInstance.request).toHaveBeenCalledWith({ method: 'get', url: '/invoices', params: {} });
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({ method: 'get', url: '/users', params: {} });
+  });
+
+  it('should not require initApiClient to be called', async () => {
+    mockedAxios.create.mockReturnValueOnce(billingAxiosInstance as any);
+    const billingClient = createApiClient({ baseURL: 'http://billing.test.com' });
+    billingAxiosInstance.post.mockResolvedValue({ data: { ok: true } });
+
+    const formData = new FormData();
+    await expect(billingClient.postFile('/uploads', formData)).resolves.toEqual({ ok: true });
+    expect(billingAxiosInstance.post).toHaveBeenCalledWith('/uploads', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  });
+});
+
+describe('middleware', () => {
+  beforeEach(() => {
+    initApiClient({ baseURL: 'http://test.com' });
+  });
+
+  it('should run middleware from the config before middleware added with use()', async () => {
+    const calls: string[] = [];
+    initApiClient({
+      baseURL: 'http://test.com',
+      middleware: [(req, next) => { calls.push('config'); return next(req); }],
+    });
+    const remove = apiClient.use((req, next) => { calls.push('use'); return next(req); });
+    mockAxiosInstance.request.mockResolvedValue({ data: 'ok', status: 200, headers: {} });
+
+    await apiClient.get('/users');
+    remove();
+
+    expect(calls).toEqual(['config', 'use']);
+    expect(mockedAxios.create.mock.calls[1][0]).not.toHaveProperty('middleware');
+  });
+
+  it('should send the request as modified by middleware', async () => {
+    const remove = apiClient.use((req, next) => next({ ...req, headers: { ...req.headers, 'X-Tenant': 'acme' } }));
+    mockAxiosInstance.request.mockResolvedValue({ data: [], status: 200, headers: {} });
+
+    await apiClient.get('/users', { page: 2 });
+    remove();
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'get',
+      url: '/users',
+      params: { page: 2 },
+      headers: { 'X-Tenant': 'acme' },
+    });
+  });
+
+  it('should apply middleware to postFile', async () => {
+    const remove = apiClient.use((req, next) => next({ ...req, headers: { ...req.headers, Authorization: 'Bearer t' } }));
+    mockAxiosInstance.post.mockResolvedValue({ data: { ok: true } });
+    const formData = new FormData();
+
+    await apiClient.postFile('/uploads', formData);
+    remove();
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('/uploads', formData, {
+      headers: { 'Content-Type': 'multipart/form-data', Authorization: 'Bearer t' },
+    });
+  });
+
+  it('should expose response details and let middleware transform them', async () => {
+    const seen: any[] = [];
+    const remove = apiClient.use(async (req, next) => {
+      const response = await next(req);
+      seen.push({ status: response.status, headers: response.headers });
+      return { ...response, data: response.data.results };
+    });
+    mockAxiosInstance.request.mockResolvedValue({ data: { results: [1] }, status: 200, headers: { etag: 'abc' } });
+
+    await expect(apiClient.get('/users')).resolves.toEqual([1]);
+    remove();
+
+    expect(seen).toEqual([{ status: 200, headers: { etag: 'abc' } }]);
+  });
+
+  it('should pass ApiError instances to middleware and normalize errors thrown by middleware', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const seen: unknown[] = [];
+    const remove = apiClient.use(async (req, next) => {
+      try {
+        return await next(req);
+      } catch (error) {
+        seen.push(error);
+        throw new Error('rewritten');
+      }
+    });
+    mockAxiosInstance.request.mockRejectedValue({ response: { status: 500, data: {} } });
+
+    const error = await apiClient.get('/users').catch(e => e);
+    remove();
+
+    expect(seen[0]).toBeInstanceOf(ApiError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'setup', message: 'Request failed: rewritten' });
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should stop running middleware once removed', async () => {
+    const middleware = jest.fn((req, next) => next(req));
+    const remove = apiClient.use(middleware);
+    remove();
+    mockAxiosInstance.request.mockResolvedValue({ data: [] });
+
+    await apiClient.get('/users');
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
+
+describe('auth', () => {
+  it('should attach the token configured through initApiClient ahead of other middleware', async () => {
+    const seenHeaders: unknown[] = [];
+    initApiClient({
+      baseURL: 'http://test.com',
+      tokenAuth: { getToken: () => 'abc' },
+      middleware: [(req, next) => { seenHeaders.push(req.headers); return next(req); }],
+    });
+    mockAxiosInstance.request.mockResolvedValue({ data: [] });
+
+    await apiClient.get('/users');
+
+    expect(seenHeaders).toEqual([{ Authorization: 'Bearer abc' }]);
+    expect(mockedAxios.create.mock.calls[0][0]).not.toHaveProperty('tokenAuth');
+    expect(mockedAxios.create.mock.calls[0][0]).toMatchObject({ withCredentials: true });
+  });
+});
+
+describe('retry', () => {
+  it('should retry GET requests with the policy from initApiClient', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    initApiClient({ baseURL: 'http://test.com', retry: { baseDelay: 1, jitter: false } });
+    mockAxiosInstance.request
+      .mockRejectedValueOnce({ response: { status: 503, data: {} } })
+      .mockResolvedValueOnce({ data: [{ id: 1 }] });
+
+    await expect(apiClient.get('/users')).resolves.toEqual([{ id: 1 }]);
+    expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.create.mock.calls[0][0]).not.toHaveProperty('retry');
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should accept per-call options without sending them to axios', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    initApiClient({ baseURL: 'http://test.com' });
+    const onRetry = jest.fn();
+    mockAxiosInstance.request
+      .mockRejectedValueOnce({ request: {}, message: 'Network Error' })
+      .mockResolvedValueOnce({ data: { id: 3 } });
+
+    await apiClient.post('/users', { name: 'New' }, { retry: { baseDelay: 1 }, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+    expect(mockAxiosInstance.request).toHaveBeenLastCalledWith({ method: 'post', url: '/users', data: { name: 'New' } });
+
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('response validation', () => {
+  const userSchema = {
+    parse: (data: any): { id: number } => {
+      if (typeof data?.id !== 'number') throw new Error('Expected an id');
+      return { id: data.id };
+    },
+  };
+
+  it('should resolve to the parsed data', async () => {
+    initApiClient({ baseURL: 'http://test.com' });
+    mockAxiosInstance.request.mockResolvedValue({ data: { id: 1, extra: true } });
+
+    const user = await apiClient.get('/users/1', {}, { schema: userSchema });
+
+    expect(user.id).toBe(1);
+    expect(user).toEqual({ id: 1 });
+  });
+
+  it('should reject with a validation error', async () => {
+    initApiClient({ baseURL: 'http://test.com' });
+    mockAxiosInstance.request.mockResolvedValue({ data: { id: '1' } });
+
+    await expect(apiClient.post('/users', {}, { schema: userSchema })).rejects.toMatchObject({
+      kind: 'validation',
+      method: 'post',
+      url: '/users',
+      data: { id: '1' },
+    });
+  });
+
+  it('should only warn when the client is configured to', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    initApiClient({ baseURL: 'http://test.com', validation: 'warn' });
+    mockAxiosInstance.request.mockResolvedValue({ data: { id: '1' } });
+
+    await expect(apiClient.get('/users/1', {}, { schema: userSchema })).resolves.toEqual({ id: '1' });
+    await expect(apiClient.get('/users/1', {}, { schema: userSchema, validation: 'throw', dedupe: false }))
+      .rejects.toMatchObject({ kind: 'validation' });
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(apiClient.validation).toBe('warn');
+
+    warnSpy.mockRestore();
+  });
+});
+
+describe('cancellation', () => {
+  beforeEach(() => {
+    initApiClient({ baseURL: 'http://test.com' });
+  });
+
+  it('should pass the abort signal to axios', async () => {
+    const controller = new AbortController();
+    mockAxiosInstance.request.mockResolvedValue({ data: [] });
+    mockAxiosInstance.post.mockResolvedValue({ data: {} });
+    const formData = new FormData();
+
+    await apiClient.get('/users', { page: 1 }, { signal: controller.signal });
+    await apiClient.postFile('/uploads', formData, { signal: controller.signal });
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      method: 'get',
+      url: '/users',
+      params: { page: 1 },
+      signal: controller.signal,
+    });
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('/uploads', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      signal: controller.signal,
+    });
+  });
+
+  it('should stop waiting for a retry once aborted', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const controller = new AbortController();
+    mockAxiosInstance.request.mockRejectedValue({ response: { status: 503, data: {} } });
+
+    const pending = apiClient.get('/users', {}, {
+      signal: controller.signal,
+      retry: { baseDelay: 60000 },
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(pending).rejects.toMatchObject({ kind: 'cancelled', url: '/users' });
+    expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+
+    consoleErrorSpy.mockRestore();
+  });
 });
 
 // Separate describe block for testing *before* initialization
+describe('deduplication', () => {
+  it('should share identical GET requests while in flight unless disabled', async () => {
+    initApiClient({ baseURL: 'http://test.com' });
+    mockAxiosInstance.request.mockResolvedValue({ data: [1], status: 200, headers: {} });
+
+    const results = await Promise.all([apiClient.get('/a', { page: 1 }), apiClient.get('/a', { page: 1 })]);
+    expect(results).toEqual([[1], [1]]);
+    expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+
+    initApiClient({ baseURL: 'http://test.com', dedupe: false });
+    await Promise.all([apiClient.get('/a'), apiClient.get('/a')]);
+    expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+    expect(mockedAxios.create).toHaveBeenLastCalledWith(expect.not.objectContaining({ dedupe: false }));
+  });
+});
+
 describe('apiClient (before initialization)', () => {
   it('should throw error if apiClient methods are called before initApiClient', async () => {
     // Ensure mocks are clear and axiosInstance is undefined
@@ -238,9 +718,13 @@ describe('apiClient (before initialization)', () => {
 
     // Now test the methods
     await expect(apiClient.get('/test')).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
+    await expect(apiClient.get('/test')).rejects.toMatchObject({ kind: 'setup' });
     await expect(apiClient.post('/test', {})).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
     await expect(apiClient.put('/test', {})).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
     await expect(apiClient.delete('/test')).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
+    await expect(apiClient.patch('/test', {})).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
+    await expect(apiClient.head('/test')).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
+    await expect(apiClient.request({ method: 'get', url: '/test' })).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
     await expect(apiClient.postFile('/test', new FormData())).rejects.toThrow('apiClient not initialized. Call initApiClient(config) first.');
   });
 }); 
\ No newline at end of file
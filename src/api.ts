@@ -1,19 +1,67 @@
 // utils/apiClient.js
-import axios, { AxiosInstance, AxiosRequestConfig, Method } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+import { ApiError } from './errors';
+import { ResponseAdapter } from './adapters';
+import { ApiRequest, ApiResponse, composeMiddleware, Middleware, NextFn, RequestOptions } from './middleware';
+import { AuthOptions, createAuthMiddleware } from './auth';
+import { createRetryMiddleware, RetryOptions } from './retry';
+import { createDedupeMiddleware } from './dedupe';
+import { toFormData, toTransferProgress, UploadFiles } from './transfer';
+import { validateResponse, ValidationMode } from './validation';
+import { createLoggingMiddleware, getLogger, Logger } from './logger';
 
 // Export for testing purposes - make it potentially undefined
 export let axiosInstance: AxiosInstance | undefined;
 
-// Define the configuration type for initApiClient
-// Extends AxiosRequestConfig but makes baseURL mandatory
-interface ApiClientConfig extends Omit<AxiosRequestConfig, 'baseURL'> {
+// Library options that configure the client itself and are not passed to axios
+export interface ApiClientOptions {
+  responseAdapter?: ResponseAdapter; // Default list response adapter for stores using this client
+  middleware?: Middleware[]; // Run in order, before any middleware added with use()
+  tokenAuth?: AuthOptions; // Bearer token handling with automatic refresh (`auth` is axios' basic auth)
+  retry?: RetryOptions | false; // Retry policy; retries are off unless configured here or per call
+  dedupe?: boolean; // Share identical GET requests while in flight; defaults to true
+  validation?: ValidationMode; // How responses failing their schema are handled; defaults to 'throw'
+  transport?: Transport; // Sends requests instead of axios, e.g. createMockApi().transport
+  logger?: Logger; // Receives request logs and errors; defaults to the global logger set with setLogger
+  redactHeaders?: string[]; // Headers masked in request logs; defaults to Authorization, cookies and API keys
+}
+
+// Sends a request and resolves to its response, whatever the status.
+// Responses with a status of 400 or above are turned into http ApiErrors like axios ones.
+export type Transport = (request: ApiRequest) => Promise<ApiResponse>;
+
+// Define the configuration type for initApiClient and createApiClient
+// Extends AxiosRequestConfig but makes baseURL mandatory; `transport` is the library's, not axios' adapter option
+export interface ApiClientConfig extends Omit<AxiosRequestConfig, 'baseURL' | 'transport'>, ApiClientOptions {
   baseURL: string;
 }
 
-// Function to initialize the API client
-export const initApiClient = (config: ApiClientConfig): void => {
+// Options of the default client, set by initApiClient
+let defaultClientOptions: ApiClientOptions = {};
+
+// Separate the library options from the axios config
+const splitConfig = (config: ApiClientConfig): [Omit<ApiClientConfig, keyof ApiClientOptions>, ApiClientOptions] => {
+  const {
+    responseAdapter, middleware = [], tokenAuth, retry, dedupe, validation, transport, logger, redactHeaders, ...axiosConfig
+  } = config;
+  return [axiosConfig, {
+    responseAdapter,
+    tokenAuth,
+    retry,
+    dedupe,
+    validation,
+    transport,
+    logger,
+    redactHeaders,
+    // Auth runs first so every other middleware sees the Authorization header and any replays
+    middleware: tokenAuth ? [createAuthMiddleware(tokenAuth), ...middleware] : middleware,
+  }];
+};
+
+// Build an axios instance with the library defaults applied
+const createAxiosInstance = (config: Omit<ApiClientConfig, keyof ApiClientOptions>): AxiosInstance => {
   const { baseURL, ...restConfig } = config;
-  axiosInstance = axios.create({
+  return axios.create({
     baseURL: baseURL,
     withCredentials: true,
     ...restConfig, // Spread the rest of the config FIRST
@@ -23,80 +71,308 @@ export const initApiClient = (config: ApiClientConfig): void => {
     },
     // No need to spread restConfig again here
   });
-  // You might want to add interceptors here (e.g., for auth tokens)
 };
 
-// Optional: Global error handler (keep as is for now, or add specific error types)
-const handleError = (error: any): never => { // Using 'any' for now, consider defining a specific error type
-  if (error.response) {
-    console.error('API Error:', error.response.data);
-    throw error.response.data; // Re-throw the specific API error data
-  } else if (error.request) {
-    console.error('No response from server:', error.request);
-    throw new Error('No response from server');
+// Function to initialize the default API client
+export const initApiClient = (config: ApiClientConfig): void => {
+  const [axiosConfig, options] = splitConfig(config);
+  axiosInstance = createAxiosInstance(axiosConfig);
+  defaultClientOptions = options;
+};
+
+// Context about the request that failed, used to fill in ApiError details
+interface RequestContext {
+  method?: string;
+  url?: string;
+}
+
+// Pick a human readable message out of a response body, falling back to the status code
+const getResponseMessage = (data: any, status: number): string => {
+  if (data && typeof data === 'object') {
+    if (typeof data.detail === 'string') return data.detail;
+    if (typeof data.message === 'string') return data.message;
+  }
+  return `Request failed with status code ${status}`;
+};
+
+// Convert axios response headers (AxiosHeaders or plain object) to a plain object
+const toPlainHeaders = (headers: any): Record<string, any> | undefined => {
+  if (!headers) return undefined;
+  return typeof headers.toJSON === 'function' ? headers.toJSON() : { ...headers };
+};
+
+// Global error handler: throws a structured ApiError. Failures are logged by the logging middleware.
+const handleError = (error: any, context: RequestContext = {}): never => {
+  if (error instanceof ApiError) {
+    throw error;
+  }
+  const details = {
+    method: (context.method || error?.config?.method)?.toLowerCase(),
+    url: context.url || error?.config?.url,
+    originalError: error,
+  };
+  if (error?.code === 'ERR_CANCELED' || error?.name === 'CanceledError') {
+    throw new ApiError('Request cancelled', { ...details, kind: 'cancelled' });
+  } else if (error?.response) {
+    const { status, data, headers } = error.response;
+    throw new ApiError(getResponseMessage(data, status), {
+      ...details,
+      kind: 'http',
+      status,
+      data,
+      headers: toPlainHeaders(headers),
+    });
+  } else if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+    throw new ApiError('Request timed out', { ...details, kind: 'timeout' });
+  } else if (error?.request) {
+    throw new ApiError('No response from server', { ...details, kind: 'network' });
   } else {
-    console.error('Request error:', error.message);
-    throw new Error(`Request failed: ${error.message}`);
+    throw new ApiError(`Request failed: ${error?.message}`, { ...details, kind: 'setup' });
   }
 };
 
-// Check if axiosInstance is initialized before making a request
-// Use a generic type T for the expected response data
-const request = async <T = any>(method: Method, url: string, dataOrParams?: any): Promise<T> => {
-  if (!axiosInstance) {
-    throw new Error('apiClient not initialized. Call initApiClient(config) first.');
+// Resolves the axios instance a client should use at call time.
+// Returns undefined while the default client has not been initialized yet.
+type InstanceGetter = () => AxiosInstance | undefined;
+
+const getInitializedInstance = (getInstance: InstanceGetter): AxiosInstance => {
+  const instance = getInstance();
+  if (!instance) {
+    throw new ApiError('apiClient not initialized. Call initApiClient(config) first.', { kind: 'setup' });
   }
+  return instance;
+};
+
+// Convert an axios response to the shape middleware work with
+const toApiResponse = <T>(response: AxiosResponse<T>): ApiResponse<T> => ({
+  data: response.data,
+  status: response.status,
+  headers: toPlainHeaders(response.headers) || {},
+});
+
+// Axios config for the per-call options: cancellation and progress callbacks
+const toAxiosOptions = (options?: RequestOptions): AxiosRequestConfig => {
+  const { signal, onUploadProgress, onDownloadProgress } = options || {};
+  return {
+    ...(signal && { signal }),
+    ...(onUploadProgress && { onUploadProgress: event => onUploadProgress(toTransferProgress(event)) }),
+    ...(onDownloadProgress && { onDownloadProgress: event => onDownloadProgress(toTransferProgress(event)) }),
+  };
+};
+
+// Final handler of the pipeline for regular requests
+const sendRequest = (instance: AxiosInstance): NextFn => async (apiRequest) => {
+  const { method, url, options, ...config } = apiRequest;
   try {
-    // AxiosRequestConfig for get requests uses 'params', others use 'data'
-    const config: AxiosRequestConfig = {};
-    if (method.toLowerCase() === 'get' || method.toLowerCase() === 'delete') {
-        config.params = dataOrParams;
-    } else {
-        config.data = dataOrParams;
-    }
+    return toApiResponse(await instance.request({
+      method,
+      url,
+      ...config,
+      ...toAxiosOptions(options),
+    }));
+  } catch (err) {
+    return handleError(err, { method, url }); // Throw a structured ApiError
+  }
+};
 
-    const response = await axiosInstance.request<T>({
-        method,
-        url,
-        ...config
-    });
-    return response.data;
+// Final handler of the pipeline for multipart uploads
+const sendFile = (instance: AxiosInstance): NextFn => async (apiRequest) => {
+  const { url, data, headers, options } = apiRequest;
+  const method = apiRequest.method.toLowerCase() as UploadMethod;
+  try {
+    return toApiResponse(await instance[method](url, data, {
+      headers,
+      ...toAxiosOptions(options),
+    }));
+  } catch (err) {
+    return handleError(err, { method, url }); // Throw a structured ApiError
+  }
+};
+
+// Final handler of the pipeline when a transport replaces axios
+const sendWithTransport = (transport: Transport): NextFn => async (apiRequest) => {
+  const { method, url } = apiRequest;
+  let response: ApiResponse;
+  try {
+    response = await transport(apiRequest);
   } catch (err) {
-    handleError(err); // Log and potentially transform the error
-    throw err; // Re-throw the original error to ensure Promise rejection
+    return handleError(err, { method, url });
   }
+  if (response.status >= 400) {
+    return handleError({ response }, { method, url }); // Same error as an axios response with this status
+  }
+  return response;
 };
 
+type UploadMethod = 'post' | 'put' | 'patch';
+
+// Per-call options of upload
+export interface UploadOptions<T = any> extends RequestOptions<T> {
+  method?: UploadMethod; // Defaults to 'post'
+  fields?: Record<string, any>; // Form fields sent along with the files
+  fieldName?: string; // Field of files passed as a Blob or an array of Blobs; defaults to 'file'
+}
+
 // Define the structure of the apiClient object
-interface ApiClient {
-  get: <T = any>(url: string, params?: Record<string, any>) => Promise<T>;
-  post: <T = any>(url: string, data?: any) => Promise<T>;
-  put: <T = any>(url: string, data?: any) => Promise<T>;
-  delete: <T = any>(url: string, params?: Record<string, any>) => Promise<T>; // DELETE might have params too
-  postFile: <T = any>(url: string, formData: FormData) => Promise<T>;
+// T is inferred from `options.schema` when one is given
+export interface ApiClient {
+  get: <T = any>(url: string, params?: Record<string, any>, options?: RequestOptions<T>) => Promise<T>;
+  post: <T = any>(url: string, data?: any, options?: RequestOptions<T>) => Promise<T>;
+  put: <T = any>(url: string, data?: any, options?: RequestOptions<T>) => Promise<T>;
+  patch: <T = any>(url: string, data?: any, options?: RequestOptions<T>) => Promise<T>; // Partial update
+  delete: <T = any>(url: string, params?: Record<string, any>, options?: RequestOptions<T>) => Promise<T>; // DELETE might have params too
+  head: (url: string, params?: Record<string, any>, options?: RequestOptions) => Promise<Record<string, any>>; // Resolves to the response headers
+  options: <T = any>(url: string, params?: Record<string, any>, options?: RequestOptions<T>) => Promise<T>;
+  postFile: <T = any>(url: string, formData: FormData, options?: RequestOptions<T>) => Promise<T>;
+  upload: <T = any>(url: string, files: UploadFiles, options?: UploadOptions<T>) => Promise<T>; // Multipart upload
+  download: (url: string, params?: Record<string, any>, options?: RequestOptions) => Promise<Blob>;
+  request: <T = any>(request: ApiRequest) => Promise<T>; // Escape hatch for anything the helpers don't cover
+  use: (middleware: Middleware) => () => void; // Returns a function that removes the middleware
+  readonly responseAdapter?: ResponseAdapter; // Configured default list response adapter, if any
+  readonly validation?: ValidationMode; // Configured validation mode, if any
+  readonly logger: Logger; // Configured logger, or the global one
 }
 
-export const apiClient: ApiClient = {
-  get: <T = any>(url: string, params: Record<string, any> = {}) => request<T>('get', url, params),
-  post: <T = any>(url: string, data: any = {}) => request<T>('post', url, data),
-  put: <T = any>(url: string, data: any = {}) => request<T>('put', url, data),
-  delete: <T = any>(url: string, params: Record<string, any> = {}) => request<T>('delete', url, params),
+// Methods sending their payload as query params rather than a request body
+const bodylessMethods: Method[] = ['get', 'delete', 'head', 'options'];
 
-  // Optional: File upload support
-  postFile: async <T = any>(url: string, formData: FormData): Promise<T> => {
-    if (!axiosInstance) {
-      throw new Error('apiClient not initialized. Call initApiClient(config) first.');
-    }
+// Build an ApiClient bound to whichever instance and options the getters resolve
+const buildApiClient = (getInstance: InstanceGetter, getOptions: () => ApiClientOptions): ApiClient => {
+  // Middleware added with use(), run after the ones from the client config
+  const registeredMiddleware: Middleware[] = [];
+  // Retries wrap the whole pipeline so every attempt goes through auth and user middleware again
+  const retryMiddleware = createRetryMiddleware(() => getOptions().retry);
+  // Deduplication comes first so identical calls share retries too
+  const dedupeMiddleware = createDedupeMiddleware(() => getOptions().dedupe ?? true);
+  // Resolved per call so a logger set later via setLogger is picked up
+  const getClientLogger = () => getOptions().logger || getLogger();
+  // Logging runs last, so it sees the headers added by auth and user middleware and every retry
+  const loggingMiddleware = createLoggingMiddleware(() => ({
+    logger: getClientLogger(),
+    redactHeaders: getOptions().redactHeaders,
+  }));
+
+  // Check the instance is initialized, then run the request through the middleware pipeline
+  const dispatchResponse = async <T>(
+    apiRequest: ApiRequest,
+    createHandler: (instance: AxiosInstance) => NextFn,
+  ): Promise<ApiResponse<T>> => {
+    const instance = getInitializedInstance(getInstance);
+    const { transport } = getOptions();
+    const pipeline = composeMiddleware(
+      [dedupeMiddleware, retryMiddleware, ...(getOptions().middleware || []), ...registeredMiddleware, loggingMiddleware],
+      transport ? sendWithTransport(transport) : createHandler(instance),
+    );
     try {
-      const response = await axiosInstance.post<T>(url, formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      return response.data;
+      return await pipeline(apiRequest);
     } catch (err) {
-      handleError(err); // Log and potentially transform the error
-      throw err; // Re-throw the original error to ensure Promise rejection
+      // Middleware may throw plain errors; normalize them like any other failure
+      if (!(err instanceof ApiError)) {
+        getClientLogger().error(`${apiRequest.method.toUpperCase()} ${apiRequest.url} failed in middleware`, {
+          method: apiRequest.method,
+          url: apiRequest.url,
+          error: err,
+        });
+      }
+      return handleError(err, { method: apiRequest.method, url: apiRequest.url });
     }
-  },
+  };
+
+  // Resolve to the response body, validated when the call has a schema
+  const dispatch = async <T>(apiRequest: ApiRequest, createHandler: (instance: AxiosInstance) => NextFn): Promise<T> => {
+    const { data } = await dispatchResponse<T>(apiRequest, createHandler);
+    const { schema, validation } = apiRequest.options || {};
+    if (!schema) {
+      return data;
+    }
+    return validateResponse<T>(
+      schema,
+      data,
+      { method: apiRequest.method, url: apiRequest.url },
+      validation ?? getOptions().validation,
+      getClientLogger(),
+    );
+  };
+
+  // Use a generic type T for the expected response data
+  const request = <T = any>(method: Method, url: string, dataOrParams?: any, options?: RequestOptions<T>): Promise<T> => {
+    // Methods without a body take query params, others take data
+    const apiRequest: ApiRequest = bodylessMethods.includes(method)
+      ? { method, url, params: dataOrParams, options }
+      : { method, url, data: dataOrParams, options };
+    return dispatch<T>(apiRequest, sendRequest);
+  };
+
+  const upload = <T = any>(url: string, files: UploadFiles, uploadOptions: UploadOptions<T> = {}): Promise<T> => {
+    const { method = 'post', fields, fieldName, ...options } = uploadOptions;
+    return dispatch<T>({
+      method,
+      url,
+      data: toFormData(files, fields, fieldName),
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      options,
+    }, sendFile);
+  };
+
+  return {
+    get responseAdapter() {
+      return getOptions().responseAdapter;
+    },
+
+    get validation() {
+      return getOptions().validation;
+    },
+    get logger() {
+      return getClientLogger();
+    },
+
+    use: (middleware: Middleware) => {
+      registeredMiddleware.push(middleware);
+      return () => {
+        const index = registeredMiddleware.indexOf(middleware);
+        if (index !== -1) {
+          registeredMiddleware.splice(index, 1);
+        }
+      };
+    },
+
+    get: <T = any>(url: string, params: Record<string, any> = {}, options?: RequestOptions<T>) =>
+      request<T>('get', url, params, options),
+    post: <T = any>(url: string, data: any = {}, options?: RequestOptions<T>) =>
+      request<T>('post', url, data, options),
+    put: <T = any>(url: string, data: any = {}, options?: RequestOptions<T>) =>
+      request<T>('put', url, data, options),
+    patch: <T = any>(url: string, data: any = {}, options?: RequestOptions<T>) =>
+      request<T>('patch', url, data, options),
+    delete: <T = any>(url: string, params: Record<string, any> = {}, options?: RequestOptions<T>) =>
+      request<T>('delete', url, params, options),
+    head: async (url: string, params: Record<string, any> = {}, options?: RequestOptions) =>
+      (await dispatchResponse({ method: 'head', url, params, options }, sendRequest)).headers,
+    options: <T = any>(url: string, params: Record<string, any> = {}, options?: RequestOptions<T>) =>
+      request<T>('options', url, params, options),
+
+    request: <T = any>(apiRequest: ApiRequest) => dispatch<T>(apiRequest, sendRequest),
+
+    // File upload support
+    postFile: <T = any>(url: string, formData: FormData, options?: RequestOptions<T>): Promise<T> =>
+      upload<T>(url, formData, options),
+    upload: <T = any>(url: string, files: UploadFiles, options?: UploadOptions<T>): Promise<T> =>
+      upload<T>(url, files, options),
+
+    download: (url: string, params: Record<string, any> = {}, options?: RequestOptions) =>
+      dispatch<Blob>({ method: 'get', url, params, responseType: 'blob', options }, sendRequest),
+  };
 };
+
+// Create an independent API client with its own axios instance.
+// Use this to talk to several backends (e.g. main API and billing service) at once.
+export const createApiClient = (config: ApiClientConfig): ApiClient => {
+  const [axiosConfig, options] = splitConfig(config);
+  const instance = createAxiosInstance(axiosConfig);
+  return buildApiClient(() => instance, () => options);
+};
+
+// The default client, backed by the instance configured through initApiClient
+export const apiClient: ApiClient = buildApiClient(() => axiosInstance, () => defaultClientOptions);
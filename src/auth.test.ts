@@ -0,0 +1,170 @@
+import { createAuthMiddleware } from './auth';
+import { ApiError } from './errors';
+import { ApiRequest, ApiResponse, composeMiddleware, NextFn } from './middleware';
+
+const request: ApiRequest = { method: 'get', url: '/users' };
+const ok = (data: any = null): ApiResponse => ({ data, status: 200, headers: {} });
+const unauthorized = () => new ApiError('Unauthorized', { kind: 'http', status: 401 });
+
+// Handler that rejects requests unless they carry the expected token
+const serverAccepting = (validToken: string): jest.MockedFunction<NextFn> =>
+  jest.fn(async (req: ApiRequest) => {
+    if (req.headers?.Authorization !== `Bearer ${validToken}`) {
+      throw unauthorized();
+    }
+    return ok(req.url);
+  });
+
+describe('createAuthMiddleware', () => {
+  it('should attach the bearer token from getToken', async () => {
+    const handler = serverAccepting('abc');
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => 'abc' })], handler);
+
+    await expect(send(request)).resolves.toMatchObject({ data: '/users' });
+    expect(handler).toHaveBeenCalledWith({ ...request, headers: { Authorization: 'Bearer abc' } });
+  });
+
+  it('should leave requests untouched without a token (cookie sessions)', async () => {
+    const handler: NextFn = jest.fn().mockResolvedValue(ok());
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => null })], handler);
+
+    await send(request);
+
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+
+  it('should use a custom scheme and skip excluded requests', async () => {
+    const handler: NextFn = jest.fn().mockResolvedValue(ok());
+    const send = composeMiddleware([createAuthMiddleware({
+      getToken: () => 'abc',
+      scheme: 'Token',
+      skip: req => req.url === '/auth/login',
+    })], handler);
+
+    await send(request);
+    await send({ method: 'post', url: '/auth/login' });
+
+    expect(handler).toHaveBeenNthCalledWith(1, { ...request, headers: { Authorization: 'Token abc' } });
+    expect(handler).toHaveBeenNthCalledWith(2, { method: 'post', url: '/auth/login' });
+  });
+
+  it('should refresh on 401 and replay the request with the new token', async () => {
+    const handler = serverAccepting('fresh');
+    const refreshToken = jest.fn().mockResolvedValue('fresh');
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => 'stale', refreshToken })], handler);
+
+    await expect(send(request)).resolves.toMatchObject({ data: '/users' });
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to getToken after a refresh that returns nothing', async () => {
+    let token = 'stale';
+    const handler = serverAccepting('fresh');
+    const send = composeMiddleware([createAuthMiddleware({
+      getToken: () => token,
+      refreshToken: async () => { token = 'fresh'; },
+    })], handler);
+
+    await expect(send(request)).resolves.toMatchObject({ data: '/users' });
+  });
+
+  it('should share a single refresh between concurrent requests', async () => {
+    let token = 'stale';
+    const handler = serverAccepting('fresh');
+    const refreshToken = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      token = 'fresh';
+    });
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => token, refreshToken })], handler);
+
+    const results = await Promise.all([
+      send({ method: 'get', url: '/a' }),
+      send({ method: 'get', url: '/b' }),
+      send({ method: 'get', url: '/c' }),
+    ]);
+
+    expect(results.map(r => r.data)).toEqual(['/a', '/b', '/c']);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay a 401 arriving after the refresh finished without refreshing again', async () => {
+    let token = 'stale';
+    const refreshToken = jest.fn(async () => { token = 'fresh'; });
+    const server = serverAccepting('fresh');
+    // '/slow' is answered only after the refresh triggered by '/fast' has completed
+    const handler: NextFn = jest.fn(async (req: ApiRequest) => {
+      if (req.url === '/slow' && req.headers?.Authorization === 'Bearer stale') {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      return server(req);
+    });
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => token, refreshToken })], handler);
+
+    const results = await Promise.all([send({ method: 'get', url: '/fast' }), send({ method: 'get', url: '/slow' })]);
+
+    expect(results.map(r => r.data)).toEqual(['/fast', '/slow']);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should queue requests made while a refresh is in flight', async () => {
+    let token = 'stale';
+    let finishRefresh: () => void = () => {};
+    const handler = serverAccepting('fresh');
+    const send = composeMiddleware([createAuthMiddleware({
+      getToken: () => token,
+      refreshToken: () => new Promise<void>(resolve => {
+        finishRefresh = () => { token = 'fresh'; resolve(); };
+      }),
+    })], handler);
+
+    const first = send({ method: 'get', url: '/a' });
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the first request hit the 401
+    const queued = send({ method: 'get', url: '/b' });
+    finishRefresh();
+
+    await expect(Promise.all([first, queued])).resolves.toHaveLength(2);
+    // The queued request waited for the refresh, so it was only sent once
+    expect(handler.mock.calls.filter(([req]) => req.url === '/b')).toHaveLength(1);
+  });
+
+  it('should call onAuthFailure once and surface the 401 when the refresh fails', async () => {
+    const handler = serverAccepting('never');
+    const refreshError = new Error('refresh expired');
+    const onAuthFailure = jest.fn();
+    const send = composeMiddleware([createAuthMiddleware({
+      getToken: () => 'stale',
+      refreshToken: jest.fn().mockRejectedValue(refreshError),
+      onAuthFailure,
+    })], handler);
+
+    const errors = await Promise.all([send(request).catch(e => e), send(request).catch(e => e)]);
+
+    expect(errors.every(e => e instanceof ApiError && e.status === 401)).toBe(true);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledWith(refreshError);
+  });
+
+  it('should not refresh for other errors or without a refresh function', async () => {
+    const serverError = new ApiError('Server Error', { kind: 'http', status: 500 });
+    const refreshToken = jest.fn();
+    const failing = composeMiddleware([createAuthMiddleware({ getToken: () => 'abc', refreshToken })],
+      jest.fn().mockRejectedValue(serverError));
+    const noRefresh = composeMiddleware([createAuthMiddleware({ getToken: () => 'abc' })],
+      jest.fn().mockRejectedValue(unauthorized()));
+
+    await expect(failing(request)).rejects.toBe(serverError);
+    await expect(noRefresh(request)).rejects.toMatchObject({ status: 401 });
+    expect(refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should only replay once', async () => {
+    const handler = serverAccepting('never');
+    const refreshToken = jest.fn().mockResolvedValue('still-wrong');
+    const send = composeMiddleware([createAuthMiddleware({ getToken: () => 'stale', refreshToken })], handler);
+
+    await expect(send(request)).rejects.toMatchObject({ status: 401 });
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+});
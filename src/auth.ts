@@ -0,0 +1,91 @@
+// auth/bearerAuth.ts
+import { isHttpError } from './errors';
+import { ApiRequest, Middleware } from './middleware';
+
+type MaybePromise<T> = T | Promise<T>;
+
+// Configure token handling for a client through the `tokenAuth` option of initApiClient/createApiClient
+export interface AuthOptions {
+  // Returns the current access token. Omit it (or return null) for cookie-based sessions.
+  getToken?: () => MaybePromise<string | null | undefined>;
+  // Called once on a 401, shared by every request that fails while it runs or was sent before it finished.
+  // Return the new token, or nothing if getToken already picks it up (or cookies are used).
+  refreshToken?: () => Promise<string | null | undefined | void>;
+  // Called when refreshToken fails, e.g. to log the user out
+  onAuthFailure?: (error: unknown) => void;
+  // Authorization scheme, defaults to 'Bearer'
+  scheme?: string;
+  // Requests to leave untouched, e.g. the login and refresh endpoints
+  skip?: (request: ApiRequest) => boolean;
+}
+
+// Middleware that attaches the Authorization header and refreshes the token on a 401.
+// Requests made while a refresh is in flight wait for it, and failed requests are replayed once.
+export const createAuthMiddleware = (options: AuthOptions): Middleware => {
+  const { getToken, refreshToken, onAuthFailure, scheme = 'Bearer', skip } = options;
+
+  // The in-flight refresh, shared by all requests that need it
+  let refreshing: Promise<string | null | undefined> | null = null;
+  // Completed refreshes and the latest token, for 401s to requests sent before the last refresh
+  let refreshCount = 0;
+  let refreshedToken: string | null | undefined;
+
+  const withToken = (request: ApiRequest, token?: string | null): ApiRequest => (
+    token
+      ? { ...request, headers: { ...request.headers, Authorization: `${scheme} ${token}` } }
+      : request
+  );
+
+  const refresh = (refresher: NonNullable<AuthOptions['refreshToken']>): Promise<string | null | undefined> => {
+    if (!refreshing) {
+      refreshing = (async () => {
+        try {
+          const token = (await refresher()) || (getToken ? await getToken() : undefined);
+          refreshCount += 1;
+          refreshedToken = token;
+          return token;
+        } catch (error) {
+          onAuthFailure?.(error);
+          throw error;
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  };
+
+  return async (request, next) => {
+    if (skip?.(request)) {
+      return next(request);
+    }
+
+    // Don't send a token we already know is being replaced
+    let token = refreshing ? await refreshing.catch(() => undefined) : undefined;
+    if (!token && getToken) {
+      token = await getToken();
+    }
+
+    const sentAfter = refreshCount;
+    try {
+      return await next(withToken(request, token));
+    } catch (error) {
+      if (!refreshToken || !isHttpError(error, 401)) {
+        throw error;
+      }
+      // A refresh finished after this request was sent, so its 401 is for the old token:
+      // replay with the new one instead of refreshing again (rotating refresh tokens allow one use)
+      if (refreshCount !== sentAfter) {
+        return next(withToken(request, refreshedToken));
+      }
+      let newToken: string | null | undefined;
+      try {
+        newToken = await refresh(refreshToken);
+      } catch {
+        throw error; // Surface the original 401; onAuthFailure has already been called
+      }
+      // Replay once; a second 401 is passed through as-is
+      return next(withToken(request, newToken));
+    }
+  };
+};
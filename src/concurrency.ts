@@ -0,0 +1,25 @@
+// utils/concurrency.ts
+
+export type Settled<TValue> = { ok: true; value: TValue } | { ok: false; error: unknown };
+
+// Call fn for every input with at most `limit` calls in flight, keeping results in input order
+export const mapSettled = async <TInput, TValue>(
+  inputs: TInput[],
+  limit: number,
+  fn: (input: TInput) => Promise<TValue>,
+): Promise<Settled<TValue>[]> => {
+  const results: Settled<TValue>[] = new Array(inputs.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await fn(inputs[index]) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), inputs.length) }, worker));
+  return results;
+};
@@ -0,0 +1,62 @@
+// stores/customActions.ts
+import { Method } from 'axios';
+import { PathParams } from './endpoints';
+
+// Where the result of a custom action goes:
+// - 'item': becomes `item`, and replaces the entity with the same id in `items`
+// - 'items': replaces the entity with the same id in `items`, or is appended
+// - { key }: stored as-is under `state[key]`
+// - 'none': only returned (default)
+export type CustomActionMerge = 'item' | 'items' | 'none' | { key: string };
+
+// Declares an action beyond CRUD, e.g. POST /orders/:id/cancel or GET /users/me.
+// TResult types what the action resolves to, TData the `data` it is called with.
+export interface CustomActionConfig<TResult = any, TData = any> {
+  method?: Method; // Defaults to 'post'
+  // Relative to the store endpoint (':id/cancel'), or absolute when starting with '/' ('/users/me').
+  // `:id` is filled with the call's id, other placeholders with path params.
+  path: string;
+  merge?: CustomActionMerge;
+  refresh?: boolean; // Refresh the list afterwards according to refetchStrategy
+  body?: (data: TData) => any; // Maps the call's data to the request body; sent as-is by default
+  transform?: (response: any) => TResult; // Maps the response body before it is merged and returned
+}
+
+// Arguments of a generated custom action
+export interface CustomActionCall<TData = any> {
+  id?: string | number;
+  data?: TData; // Request body, or query params for GET/DELETE/HEAD/OPTIONS unless `params` is given
+  params?: Record<string, any>; // Query params
+  pathParams?: PathParams;
+}
+
+// A generated action; resolves to undefined on failure, like the CRUD actions
+export type CustomAction<TResult = any, TData = any> = (call?: CustomActionCall<TData>) => Promise<TResult | undefined>;
+
+// Result of a custom action: its `transform`'s return type, or the store's entity type T without one
+type CustomActionResult<T, TConfig> = TConfig extends CustomActionConfig<infer TResult, any>
+  ? (unknown extends TResult ? T : TResult)
+  : never;
+
+// The actions generated from the `customActions` option. Actions without a `transform`
+// resolve to the store's entity type T, and ones without a `body` accept any data.
+export type CustomActions<T, TCustom> = {
+  [K in keyof TCustom]: TCustom[K] extends CustomActionConfig<any, infer TData>
+    ? CustomAction<CustomActionResult<T, TCustom[K]>, unknown extends TData ? any : TData>
+    : never;
+};
+
+// The state written by actions with `merge: { key }`: each key holds its action's latest result, null until then
+export type CustomActionState<T, TCustom> = {
+  [K in keyof TCustom as TCustom[K] extends { merge: { key: infer TKey extends string } } ? TKey : never]:
+    CustomActionResult<T, TCustom[K]> | null;
+};
+
+// Keep the literal types of a customActions object (e.g. `merge: 'item'` or `merge: { key: 'currentUser' }`),
+// so it can be typed with `typeof`
+export const defineCustomActions = <const TCustom extends Record<string, CustomActionConfig>>(actions: TCustom): TCustom =>
+  actions;
+
+// Endpoint template of a custom action
+export const getCustomActionTemplate = (endpoint: string, path: string): string =>
+  (path.startsWith('/') ? path : `${endpoint.replace(/\/+$/, '')}/${path}`);
@@ -0,0 +1,89 @@
+import { createDedupeMiddleware } from './dedupe';
+import { ApiResponse, composeMiddleware, NextFn } from './middleware';
+
+const ok = { data: 'ok', status: 200, headers: {} };
+
+// Handler whose responses are resolved by the test
+const deferredHandler = () => {
+  let resolve: (response: ApiResponse) => void = () => {};
+  const handler = jest.fn<ReturnType<NextFn>, Parameters<NextFn>>(() => new Promise(res => { resolve = res; }));
+  return { handler, respond: (response: ApiResponse = ok) => resolve(response) };
+};
+
+const pipeline = (handler: NextFn, enabled = true) =>
+  composeMiddleware([createDedupeMiddleware(() => enabled)], handler);
+
+describe('createDedupeMiddleware', () => {
+  it('should send identical in-flight GETs once and share the response', async () => {
+    const { handler, respond } = deferredHandler();
+    const send = pipeline(handler);
+
+    const first = send({ method: 'get', url: '/users', params: { page: 1 } });
+    const second = send({ method: 'get', url: '/users', params: { page: 1 } });
+    respond();
+
+    await expect(first).resolves.toBe(ok);
+    await expect(second).resolves.toBe(ok);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a new request once the previous one has settled', async () => {
+    const handler = jest.fn<ReturnType<NextFn>, Parameters<NextFn>>().mockResolvedValue(ok);
+    const send = pipeline(handler);
+
+    await send({ method: 'get', url: '/users' });
+    await send({ method: 'get', url: '/users' });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share requests with different params or other methods', async () => {
+    const handler = jest.fn<ReturnType<NextFn>, Parameters<NextFn>>().mockResolvedValue(ok);
+    const send = pipeline(handler);
+
+    await Promise.all([
+      send({ method: 'get', url: '/users', params: { page: 1 } }),
+      send({ method: 'get', url: '/users', params: { page: 2 } }),
+      send({ method: 'post', url: '/users', data: {} }),
+      send({ method: 'post', url: '/users', data: {} }),
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should respect the client setting and per-call overrides', async () => {
+    const handler = jest.fn<ReturnType<NextFn>, Parameters<NextFn>>().mockResolvedValue(ok);
+
+    await Promise.all([
+      pipeline(handler, false)({ method: 'get', url: '/a' }),
+      pipeline(handler, false)({ method: 'get', url: '/a' }),
+    ]);
+    const send = pipeline(handler);
+    await Promise.all([
+      send({ method: 'get', url: '/b', options: { dedupe: false } }),
+      send({ method: 'get', url: '/b', options: { dedupe: false } }),
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only abort the shared request once every caller has aborted', async () => {
+    const { handler, respond } = deferredHandler();
+    const send = pipeline(handler);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstCall = send({ method: 'get', url: '/users', options: { signal: first.signal } });
+    const secondCall = send({ method: 'get', url: '/users', options: { signal: second.signal } });
+    const sharedSignal = handler.mock.calls[0][0].options!.signal!;
+
+    first.abort();
+    await expect(firstCall).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(sharedSignal.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondCall).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(sharedSignal.aborted).toBe(true);
+    respond();
+  });
+});
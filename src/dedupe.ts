@@ -0,0 +1,88 @@
+// dedupe/dedupeRequests.ts
+import { ApiError } from './errors';
+import { ApiRequest, ApiResponse, Middleware } from './middleware';
+import { getQueryKey } from './queryKeys';
+
+// A GET shared by every identical call made while it is in flight
+interface SharedRequest {
+  response: Promise<ApiResponse>;
+  controller: AbortController; // Aborted once every caller has given up
+  callers: number;
+}
+
+const cancelledError = (request: ApiRequest) => new ApiError('Request cancelled', {
+  kind: 'cancelled',
+  method: request.method,
+  url: request.url,
+});
+
+// Middleware sending identical GET requests (same url, params and headers) only once while in flight.
+// Every caller gets the same response; the request is only aborted when all callers abort.
+export const createDedupeMiddleware = (isEnabled: () => boolean): Middleware => {
+  const inFlight = new Map<string, SharedRequest>();
+
+  // Later calls start a new request once this one has settled or been abandoned
+  const release = (key: string, shared: SharedRequest) => {
+    if (inFlight.get(key) === shared) {
+      inFlight.delete(key);
+    }
+  };
+
+  // Wait for the shared response, rejecting early if this caller's signal is aborted
+  const waitFor = (key: string, shared: SharedRequest, request: ApiRequest): Promise<ApiResponse> => {
+    const signal = request.options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError(request));
+    }
+    shared.callers++;
+    return new Promise<ApiResponse>((resolve, reject) => {
+      const onAbort = () => {
+        shared.callers--;
+        if (shared.callers === 0) {
+          release(key, shared);
+          shared.controller.abort();
+        }
+        reject(cancelledError(request));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      shared.response.then(
+        (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  };
+
+  return (request, next) => {
+    const enabled = request.options?.dedupe ?? isEnabled();
+    if (!enabled || request.method.toLowerCase() !== 'get') {
+      return next(request);
+    }
+
+    const key = getQueryKey(request.url, {
+      params: request.params,
+      headers: request.headers,
+      responseType: request.responseType,
+    });
+    let shared = inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      // Callers without a signal can never abort, so only a first caller with one makes the request abortable
+      const options = request.options?.signal ? { ...request.options, signal: controller.signal } : request.options;
+      const created: SharedRequest = {
+        response: next({ ...request, options }),
+        controller,
+        callers: 0,
+      };
+      created.response.then(() => release(key, created), () => release(key, created));
+      inFlight.set(key, created);
+      shared = created;
+    }
+    return waitFor(key, shared, request);
+  };
+};
@@ -0,0 +1,41 @@
+import { buildUrl, getPathParamNames, splitPathParams } from './endpoints';
+
+describe('getPathParamNames', () => {
+  it('should list the placeholders of a template', () => {
+    expect(getPathParamNames('/projects/:projectId/tasks/:task_id/comments')).toEqual(['projectId', 'task_id']);
+    expect(getPathParamNames('/users')).toEqual([]);
+  });
+
+  it('should not treat ports or schemes as placeholders', () => {
+    expect(getPathParamNames('http://localhost:8000/projects/:projectId')).toEqual(['projectId']);
+  });
+});
+
+describe('splitPathParams', () => {
+  it('should separate path params from query params', () => {
+    expect(splitPathParams('/projects/:projectId/tasks', { projectId: 5, page: 2 }))
+      .toEqual([{ projectId: 5 }, { page: 2 }]);
+  });
+});
+
+describe('buildUrl', () => {
+  it('should build list and detail URLs with a trailing slash by default', () => {
+    expect(buildUrl('/projects/:projectId/tasks', { projectId: 5 })).toBe('/projects/5/tasks/');
+    expect(buildUrl('/projects/:projectId/tasks', { projectId: 5 }, 9)).toBe('/projects/5/tasks/9/');
+  });
+
+  it('should omit the trailing slash when disabled', () => {
+    expect(buildUrl('/users', {}, undefined, false)).toBe('/users');
+    expect(buildUrl('/users/', {}, 1, false)).toBe('/users/1');
+  });
+
+  it('should encode path param values', () => {
+    expect(buildUrl('/files/:folder', { folder: 'a b/c' })).toBe('/files/a%20b%2Fc/');
+  });
+
+  it('should throw a setup ApiError for missing path params', () => {
+    expect(() => buildUrl('/projects/:projectId/tasks')).toThrow(
+      expect.objectContaining({ kind: 'setup', message: 'Missing path param "projectId" for endpoint /projects/:projectId/tasks' }),
+    );
+  });
+});
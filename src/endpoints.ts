@@ -0,0 +1,43 @@
+// stores/endpoints.ts
+import { ApiError } from './errors';
+
+// Values for the `:name` placeholders of an endpoint template such as '/projects/:projectId/tasks'
+export type PathParams = Record<string, string | number>;
+
+const PLACEHOLDER = /:([A-Za-z_]\w*)/g;
+
+// Names of the placeholders in an endpoint template
+export const getPathParamNames = (template: string): string[] =>
+  (template.match(PLACEHOLDER) || []).map(placeholder => placeholder.slice(1));
+
+// Separate the params that fill the template's placeholders from the query params
+export const splitPathParams = (
+  template: string,
+  params: Record<string, any> = {},
+): [PathParams, Record<string, any>] => {
+  const names = getPathParamNames(template);
+  return Object.keys(params).reduce<[PathParams, Record<string, any>]>(([pathParams, query], key) => (
+    names.includes(key)
+      ? [{ ...pathParams, [key]: params[key] }, query]
+      : [pathParams, { ...query, [key]: params[key] }]
+  ), [{}, {}]);
+};
+
+// Build the list URL of an endpoint template, or the detail URL when an id is given.
+// Throws a 'setup' ApiError when a placeholder has no value.
+export const buildUrl = (
+  template: string,
+  pathParams: PathParams = {},
+  id?: string | number,
+  trailingSlash = true,
+): string => {
+  const path = template.replace(/\/+$/, '').replace(PLACEHOLDER, (_placeholder, name: string) => {
+    const value = pathParams[name];
+    if (value === undefined || value === null || value === '') {
+      throw new ApiError(`Missing path param "${name}" for endpoint ${template}`, { kind: 'setup' });
+    }
+    return encodeURIComponent(String(value));
+  });
+  const url = id === undefined ? path : `${path}/${encodeURIComponent(String(id))}`;
+  return trailingSlash ? `${url}/` : url;
+};
@@ -0,0 +1,52 @@
+import { createEntityCache } from './entities';
+
+interface User {
+  id: number;
+  name: string;
+  email?: string;
+}
+
+describe('createEntityCache', () => {
+  it('should upsert entities, merging fields of cached ones', () => {
+    const cache = createEntityCache<User>();
+    cache.upsert([{ id: 1, name: 'Ada', email: 'ada@example.com' }, { id: 2, name: 'Grace' }]);
+    cache.upsert([{ id: 1, name: 'Ada Lovelace' }]);
+
+    expect(cache.selectById(1)).toEqual({ id: 1, name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(cache.selectAll()).toEqual([
+      { id: 1, name: 'Ada Lovelace', email: 'ada@example.com' },
+      { id: 2, name: 'Grace' },
+    ]);
+  });
+
+  it('should return query entities in list order', () => {
+    const cache = createEntityCache<User>();
+    cache.upsert([{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }]);
+    cache.setQuery('recent', [2, 1]);
+
+    expect(cache.selectQuery('recent').map(user => user.id)).toEqual([2, 1]);
+    expect(cache.selectQuery('unknown')).toEqual([]);
+  });
+
+  it('should remove entities from byId and every query', () => {
+    const cache = createEntityCache<User>();
+    cache.upsert([{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }]);
+    cache.setQuery('a', [1, 2]);
+    cache.setQuery('b', [1]);
+
+    cache.remove(1);
+
+    expect(cache.selectById(1)).toBeUndefined();
+    expect(cache.getState().queries).toEqual({ a: [2], b: [] });
+  });
+
+  it('should notify subscribers of changes', () => {
+    const cache = createEntityCache<User>();
+    const listener = jest.fn();
+    cache.subscribe(listener);
+
+    cache.upsert([{ id: 1, name: 'Ada' }]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
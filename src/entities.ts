@@ -0,0 +1,66 @@
+// stores/entityCache.ts
+import { createStore, StoreApi } from 'zustand/vanilla';
+
+type EntityId = string | number;
+
+// Normalized entities of one resource type
+export interface EntityCacheState<T> {
+  byId: Record<string, T>; // Entities keyed by String(id)
+  queries: Record<string, EntityId[]>; // Ordered ids of each list query, keyed by getQueryKey()
+}
+
+// A normalized cache that several stores of the same resource type can share,
+// so fetching or mutating an entity in one store updates every store showing it
+export interface EntityCache<T extends { id: EntityId }> extends StoreApi<EntityCacheState<T>> {
+  upsert: (entities: T[]) => void; // Fields of cached entities are merged with the new ones
+  remove: (id: EntityId) => void; // Drops the entity and its id from every query
+  setQuery: (key: string, ids: EntityId[]) => void;
+  selectById: (id: EntityId) => T | undefined;
+  selectAll: () => T[];
+  selectQuery: (key: string) => T[]; // Entities of a query in list order
+}
+
+export const createEntityCache = <T extends { id: EntityId }>(): EntityCache<T> => {
+  const store = createStore<EntityCacheState<T>>(() => ({ byId: {}, queries: {} }));
+  const { getState, setState } = store;
+
+  const pick = (ids: EntityId[]): T[] => {
+    const { byId } = getState();
+    return ids.filter(id => String(id) in byId).map(id => byId[String(id)]);
+  };
+
+  return {
+    ...store,
+
+    upsert: (entities) => {
+      if (entities.length === 0) return;
+      setState(state => {
+        // Copied once: spreading the map per entity is quadratic for large lists
+        const byId = { ...state.byId };
+        entities.forEach(entity => {
+          byId[String(entity.id)] = { ...byId[String(entity.id)], ...entity };
+        });
+        return { byId };
+      });
+    },
+
+    remove: (id) => {
+      setState(state => {
+        const { [String(id)]: _removed, ...byId } = state.byId;
+        const queries: Record<string, EntityId[]> = {};
+        Object.keys(state.queries).forEach(key => {
+          queries[key] = state.queries[key].filter(existing => String(existing) !== String(id));
+        });
+        return { byId, queries };
+      });
+    },
+
+    setQuery: (key, ids) => {
+      setState(state => ({ queries: { ...state.queries, [key]: ids } }));
+    },
+
+    selectById: (id) => getState().byId[String(id)],
+    selectAll: () => pick(Object.keys(getState().byId)),
+    selectQuery: (key) => pick(getState().queries[key] || []),
+  };
+};
@@ -0,0 +1,69 @@
+import { ApiError, isApiError, isHttpError, getFieldErrors, getNonFieldErrors } from './errors';
+
+describe('ApiError', () => {
+  it('should be an Error carrying the request details', () => {
+    const error = new ApiError('Not Found', {
+      kind: 'http',
+      status: 404,
+      method: 'get',
+      url: '/users/1/',
+      data: { detail: 'Not Found' },
+      headers: { 'content-type': 'application/json' },
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ApiError');
+    expect(error.message).toBe('Not Found');
+    expect(error).toMatchObject({ kind: 'http', status: 404, method: 'get', url: '/users/1/' });
+  });
+});
+
+describe('type guards', () => {
+  const httpError = new ApiError('Bad Request', { kind: 'http', status: 400 });
+  const networkError = new ApiError('No response from server', { kind: 'network' });
+
+  it('isApiError should only match ApiError instances', () => {
+    expect(isApiError(httpError)).toBe(true);
+    expect(isApiError(new Error('plain'))).toBe(false);
+    expect(isApiError({ kind: 'http' })).toBe(false);
+  });
+
+  it('isHttpError should match on kind and optional status', () => {
+    expect(isHttpError(httpError)).toBe(true);
+    expect(isHttpError(httpError, 400)).toBe(true);
+    expect(isHttpError(httpError, 404)).toBe(false);
+    expect(isHttpError(networkError)).toBe(false);
+  });
+});
+
+describe('validation helpers', () => {
+  const validationError = new ApiError('Bad Request', {
+    kind: 'http',
+    status: 400,
+    data: {
+      email: ['Enter a valid email address.'],
+      name: 'This field is required.',
+      non_field_errors: ['Passwords do not match.'],
+      nested: { street: ['Too long.'] },
+    },
+  });
+
+  it('getFieldErrors should return DRF-style field messages', () => {
+    expect(getFieldErrors(validationError)).toEqual({
+      email: ['Enter a valid email address.'],
+      name: ['This field is required.'],
+    });
+  });
+
+  it('getNonFieldErrors should return non_field_errors and detail', () => {
+    expect(getNonFieldErrors(validationError)).toEqual(['Passwords do not match.']);
+    expect(getNonFieldErrors(new ApiError('Forbidden', { kind: 'http', status: 403, data: { detail: 'Nope.' } })))
+      .toEqual(['Nope.']);
+  });
+
+  it('should return empty results for errors without a response body', () => {
+    expect(getFieldErrors(new ApiError('No response from server', { kind: 'network' }))).toEqual({});
+    expect(getFieldErrors(new Error('plain'))).toEqual({});
+    expect(getNonFieldErrors(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+// errors/ApiError.ts
+
+// What went wrong with a request:
+// - 'http': the server responded with a non-2xx status
+// - 'network': the request was sent but no response arrived
+// - 'timeout': the request exceeded the configured timeout
+// - 'cancelled': the request was aborted by the caller
+// - 'setup': the request could not be built or sent (e.g. client not initialized)
+// - 'validation': the response did not match the schema it was checked against
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'cancelled' | 'setup' | 'validation';
+
+// Details attached to an ApiError when it is constructed
+export interface ApiErrorDetails<TData = any> {
+  kind: ApiErrorKind;
+  status?: number;
+  method?: string;
+  url?: string;
+  data?: TData;
+  headers?: Record<string, any>;
+  originalError?: unknown; // The underlying axios (or other) error, kept for debugging
+}
+
+// DRF-style validation errors: { field: ['message', ...] }
+export type FieldErrors = Record<string, string[]>;
+
+// Error thrown by every apiClient method
+export class ApiError<TData = any> extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly method?: string;
+  readonly url?: string;
+  readonly data?: TData; // Response body for 'http' and 'validation' errors
+  readonly headers?: Record<string, any>;
+  readonly originalError?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails<TData>) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = details.kind;
+    this.status = details.status;
+    this.method = details.method;
+    this.url = details.url;
+    this.data = details.data;
+    this.headers = details.headers;
+    this.originalError = details.originalError;
+  }
+}
+
+// Type guard for errors thrown by apiClient
+export const isApiError = <TData = any>(error: unknown): error is ApiError<TData> =>
+  error instanceof ApiError;
+
+// Narrow to an HTTP error, optionally with a specific status code
+export const isHttpError = <TData = any>(error: unknown, status?: number): error is ApiError<TData> =>
+  isApiError(error) && error.kind === 'http' && (status === undefined || error.status === status);
+
+// Keys DRF uses for errors that don't belong to a single field
+const NON_FIELD_KEYS = ['non_field_errors', 'detail'];
+
+// Normalize a single error value (string or list of strings) to a list of messages
+const toMessages = (value: unknown): string[] | undefined => {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+    return value as string[];
+  }
+  return undefined;
+};
+
+// Extract field-level validation errors from an ApiError's response body.
+// Returns an empty object when the error has no field errors.
+export const getFieldErrors = (error: unknown): FieldErrors => {
+  if (!isHttpError(error) || !error.data || typeof error.data !== 'object' || Array.isArray(error.data)) {
+    return {};
+  }
+  const fieldErrors: FieldErrors = {};
+  Object.entries(error.data as Record<string, unknown>).forEach(([field, value]) => {
+    if (NON_FIELD_KEYS.includes(field)) {
+      return;
+    }
+    const messages = toMessages(value);
+    if (messages) {
+      fieldErrors[field] = messages;
+    }
+  });
+  return fieldErrors;
+};
+
+// Extract errors that are not tied to a field (`non_field_errors`, `detail`)
+export const getNonFieldErrors = (error: unknown): string[] => {
+  if (!isHttpError(error) || !error.data || typeof error.data !== 'object') {
+    return [];
+  }
+  const data = error.data as Record<string, unknown>;
+  return NON_FIELD_KEYS.reduce<string[]>(
+    (messages, key) => messages.concat(toMessages(data[key]) || []),
+    [],
+  );
+};
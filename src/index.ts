@@ -1,2 +1,64 @@
-export { createGenericStore } from './zustand';
-export { initApiClient, apiClient } from './api';
+export { createGenericStore, createVanillaGenericStore, isTempId } from './zustand';
+export type {
+  GenericState,
+  GenericActions,
+  GenericStoreOptions,
+  MutationOptions,
+  RefetchStrategy,
+  SortState,
+  BulkResult,
+  BulkOptions,
+  QueryOptions,
+  ActionType,
+  ActionStatus,
+  Meta,
+  StoreDevtoolsOptions,
+  VanillaGenericStore,
+  DehydratedState,
+} from './zustand';
+export { dehydrateStores, hydrateStores } from './ssr';
+export type { DehydratedStores } from './ssr';
+export { initApiClient, apiClient, createApiClient } from './api';
+export type { ApiClient, ApiClientConfig, ApiClientOptions, UploadOptions, Transport } from './api';
+export { ApiError, isApiError, isHttpError, getFieldErrors, getNonFieldErrors } from './errors';
+export type { ApiErrorKind, ApiErrorDetails, FieldErrors } from './errors';
+export { djangoAdapter, arrayAdapter, drfAdapter, jsonApiAdapter, createCursorAdapter } from './adapters';
+export type { ResponseAdapter, ListResult, CursorAdapterOptions } from './adapters';
+export type { Middleware, NextFn, ApiRequest, ApiResponse, RequestOptions } from './middleware';
+export { createAuthMiddleware } from './auth';
+export type { AuthOptions } from './auth';
+export type { RetryOptions, RetryInfo } from './retry';
+export { createEntityCache } from './entities';
+export { getQueryKey } from './queryKeys';
+export type { EntityCache, EntityCacheState } from './entities';
+export type { PathParams } from './endpoints';
+export type { TransferProgress, UploadFiles } from './transfer';
+export { validateResponse } from './validation';
+export type { Schema, SafeParseResult, InferSchema, ValidationMode, ValidationContext } from './validation';
+export { createUploadStore } from './uploads';
+export type { Upload, UploadStatus, UploadState, UploadStoreOptions, UploadCallOptions } from './uploads';
+export { createMemoryStorage } from './persistence';
+export type { PersistOptions, PersistField, PersistApi, Migration, StateStorage } from './persistence';
+export { browserConnectivity, createManualConnectivity } from './offline';
+export type { Connectivity, ManualConnectivity, OfflineOptions, QueuedMutation } from './offline';
+export { defineCustomActions } from './customActions';
+export type {
+  CustomActionConfig,
+  CustomActionCall,
+  CustomAction,
+  CustomActions,
+  CustomActionMerge,
+  CustomActionState,
+} from './customActions';
+export { createLogger, setLogger, getLogger, redactHeaders, defaultRedactedHeaders } from './logger';
+export type { Logger, LogLevel, LogEntry, LoggerOptions } from './logger';
+export { createMockApi } from './mockApi';
+export type {
+  MockApi,
+  MockApiOptions,
+  MockFailure,
+  MockEnvelope,
+  MockRouteHandler,
+  RecordedRequest,
+  RequestMatcher,
+} from './mockApi';
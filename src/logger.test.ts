@@ -0,0 +1,120 @@
+import { createLogger, getLogger, LogEntry, redactHeaders, setLogger } from './logger';
+import { createApiClient } from './api';
+import { createMockApi } from './mockApi';
+import { validateResponse } from './validation';
+
+describe('createLogger', () => {
+  it('should drop entries below its level', () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ level: 'info', write: entry => entries.push(entry) });
+
+    logger.debug('hidden');
+    logger.info('shown', { a: 1 });
+    logger.error('failed');
+
+    expect(entries).toEqual([
+      { level: 'info', message: 'shown', details: { a: 1 } },
+      { level: 'error', message: 'failed', details: undefined },
+    ]);
+  });
+
+  it('should write warnings and errors to the console by default', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const infoSpy = jest.spyOn(console, 'info').mockImplementation(() => {});
+    const logger = createLogger();
+
+    logger.info('hidden');
+    logger.warn('careful', { id: 1 });
+
+    expect(infoSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith('careful', { id: 1 });
+    warnSpy.mockRestore();
+    infoSpy.mockRestore();
+  });
+
+  it('should log nothing at the silent level', () => {
+    const write = jest.fn();
+    const logger = createLogger({ level: 'silent', write });
+
+    logger.error('failed');
+
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('redactHeaders', () => {
+  it('should mask sensitive headers in any case', () => {
+    expect(redactHeaders({ Authorization: 'Bearer secret', 'X-Request-Id': 'abc' })).toEqual({
+      Authorization: '[REDACTED]',
+      'X-Request-Id': 'abc',
+    });
+    expect(redactHeaders({ 'X-Tenant': 'acme' }, ['x-tenant'])).toEqual({ 'X-Tenant': '[REDACTED]' });
+  });
+});
+
+describe('request logging', () => {
+  const setup = () => {
+    const entries: LogEntry[] = [];
+    const mockApi = createMockApi({ resources: { '/users': [{ id: 1, name: 'Ada' }] } });
+    const client = createApiClient({
+      baseURL: 'http://api.test',
+      transport: mockApi.transport,
+      logger: createLogger({ level: 'debug', write: entry => entries.push(entry) }),
+      tokenAuth: { getToken: () => 'secret' },
+    });
+    return { entries, mockApi, client };
+  };
+
+  it('should log each request with its status, duration and redacted headers', async () => {
+    const { entries, client } = setup();
+
+    await client.get('/users/1/');
+
+    expect(entries).toEqual([
+      {
+        level: 'debug',
+        message: 'GET /users/1/ started',
+        details: expect.objectContaining({ headers: expect.objectContaining({ Authorization: '[REDACTED]' }) }),
+      },
+      {
+        level: 'info',
+        message: expect.stringMatching(/^GET \/users\/1\/ 200 in \d+ms$/),
+        details: expect.objectContaining({ status: 200, durationMs: expect.any(Number) }),
+      },
+    ]);
+  });
+
+  it('should log failures as errors and cancellations as debug entries', async () => {
+    const { entries, mockApi, client } = setup();
+    mockApi.fail({ status: 503, data: { detail: 'Unavailable' } });
+
+    await client.get('/users/1/').catch(() => undefined);
+    const controller = new AbortController();
+    controller.abort();
+    await client.get('/users/1/', {}, { signal: controller.signal, dedupe: false }).catch(() => undefined);
+
+    expect(entries.filter(entry => entry.level !== 'debug')).toEqual([
+      {
+        level: 'error',
+        message: expect.stringMatching(/^GET \/users\/1\/ failed in \d+ms: Unavailable$/),
+        details: expect.objectContaining({ kind: 'http', status: 503, data: { detail: 'Unavailable' } }),
+      },
+    ]);
+    expect(entries[entries.length - 1].message).toMatch(/^GET \/users\/1\/ cancelled after \d+ms$/);
+  });
+
+  it('should fall back to the global logger', async () => {
+    const previous = getLogger();
+    const write = jest.fn();
+    setLogger(createLogger({ level: 'info', write }));
+    const mockApi = createMockApi({ resources: { '/users': [] } });
+    const client = createApiClient({ baseURL: 'http://api.test', transport: mockApi.transport });
+
+    await client.get('/users/');
+    validateResponse({ parse: () => { throw new Error('Invalid'); } }, {}, { url: '/users/' }, 'warn');
+
+    expect(write).toHaveBeenCalledWith(expect.objectContaining({ level: 'info', message: expect.stringContaining('GET /users/ 200') }));
+    expect(write).toHaveBeenCalledWith(expect.objectContaining({ level: 'warn', message: 'Response validation failed for /users/' }));
+    setLogger(previous);
+  });
+});
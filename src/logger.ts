@@ -0,0 +1,113 @@
+// utils/logger.ts
+import { isApiError } from './errors';
+import { Middleware } from './middleware';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// Receives everything the library logs. `console` fits, as does anything with the same four methods.
+export interface Logger {
+  debug: (message: string, details?: Record<string, any>) => void;
+  info: (message: string, details?: Record<string, any>) => void;
+  warn: (message: string, details?: Record<string, any>) => void;
+  error: (message: string, details?: Record<string, any>) => void;
+}
+
+export interface LogEntry {
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel; // Least severe level written; defaults to 'warn'
+  write?: (entry: LogEntry) => void; // Defaults to the console method of the entry's level
+}
+
+const severity: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const writeToConsole = ({ level, message, details }: LogEntry) => {
+  if (details === undefined) {
+    console[level](message);
+  } else {
+    console[level](message, details);
+  }
+};
+
+// Create a logger dropping entries below the given level
+export const createLogger = (options: LoggerOptions = {}): Logger => {
+  const threshold = severity[options.level || 'warn'];
+  const write = options.write || writeToConsole;
+  const at = (level: LogEntry['level']) => (message: string, details?: Record<string, any>) => {
+    if (severity[level] >= threshold) {
+      write({ level, message, details });
+    }
+  };
+  return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+};
+
+// Used by clients without a `logger` option and by code not tied to a client (e.g. the offline queue)
+let globalLogger: Logger = createLogger();
+
+export const setLogger = (logger: Logger): void => {
+  globalLogger = logger;
+};
+
+export const getLogger = (): Logger => globalLogger;
+
+// Headers masked in request logs unless the client configures its own list
+export const defaultRedactedHeaders = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+export const redactHeaders = (
+  headers: Record<string, any> | undefined,
+  names: string[] = defaultRedactedHeaders,
+): Record<string, any> | undefined => {
+  if (!headers) return undefined;
+  const redacted = names.map(name => name.toLowerCase());
+  return Object.keys(headers).reduce((result, key) => ({
+    ...result,
+    [key]: redacted.includes(key.toLowerCase()) ? '[REDACTED]' : headers[key],
+  }), {} as Record<string, any>);
+};
+
+export interface RequestLogConfig {
+  logger: Logger;
+  redactHeaders?: string[];
+}
+
+// Log every request with its outcome and duration. The client runs it last, so it sees the final
+// headers (including Authorization, which is redacted) and logs each retry attempt separately.
+export const createLoggingMiddleware = (getConfig: () => RequestLogConfig): Middleware => async (request, next) => {
+  const { logger, redactHeaders: redacted } = getConfig();
+  const label = `${request.method.toUpperCase()} ${request.url}`;
+  const startedAt = Date.now();
+  logger.debug(`${label} started`, {
+    method: request.method,
+    url: request.url,
+    params: request.params,
+    headers: redactHeaders(request.headers, redacted),
+  });
+  try {
+    const response = await next(request);
+    const durationMs = Date.now() - startedAt;
+    logger.info(`${label} ${response.status} in ${durationMs}ms`, {
+      method: request.method,
+      url: request.url,
+      status: response.status,
+      durationMs,
+    });
+    return response;
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    if (isApiError(error) && error.kind === 'cancelled') {
+      logger.debug(`${label} cancelled after ${durationMs}ms`, { method: request.method, url: request.url, durationMs });
+    } else {
+      logger.error(`${label} failed in ${durationMs}ms: ${error instanceof Error ? error.message : String(error)}`, {
+        method: request.method,
+        url: request.url,
+        durationMs,
+        ...(isApiError(error) && { kind: error.kind, status: error.status, data: error.data }),
+      });
+    }
+    throw error;
+  }
+};
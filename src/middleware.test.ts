@@ -0,0 +1,65 @@
+import { composeMiddleware, ApiRequest, Middleware, NextFn } from './middleware';
+
+const request: ApiRequest = { method: 'get', url: '/users' };
+
+describe('composeMiddleware', () => {
+  it('should call the handler directly when there is no middleware', async () => {
+    const handler: NextFn = jest.fn().mockResolvedValue({ data: 'ok', status: 200, headers: {} });
+
+    await expect(composeMiddleware([], handler)(request)).resolves.toEqual({ data: 'ok', status: 200, headers: {} });
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+
+  it('should run middleware in order on the way out and in reverse on the way back', async () => {
+    const calls: string[] = [];
+    const track = (name: string): Middleware => async (req, next) => {
+      calls.push(`${name}:request`);
+      const response = await next(req);
+      calls.push(`${name}:response`);
+      return response;
+    };
+    const handler: NextFn = async () => {
+      calls.push('handler');
+      return { data: null, status: 200, headers: {} };
+    };
+
+    await composeMiddleware([track('first'), track('second')], handler)(request);
+
+    expect(calls).toEqual(['first:request', 'second:request', 'handler', 'second:response', 'first:response']);
+  });
+
+  it('should pass modified requests and responses along', async () => {
+    const addHeader: Middleware = (req, next) => next({ ...req, headers: { ...req.headers, 'X-Request-Id': '42' } });
+    const unwrap: Middleware = async (req, next) => {
+      const response = await next(req);
+      return { ...response, data: response.data.payload };
+    };
+    const handler: NextFn = jest.fn().mockResolvedValue({ data: { payload: [1, 2] }, status: 200, headers: {} });
+
+    const response = await composeMiddleware([addHeader, unwrap], handler)(request);
+
+    expect(handler).toHaveBeenCalledWith({ ...request, headers: { 'X-Request-Id': '42' } });
+    expect(response.data).toEqual([1, 2]);
+  });
+
+  it('should allow short-circuiting without calling the handler', async () => {
+    const cached: Middleware = async () => ({ data: 'cached', status: 200, headers: {} });
+    const handler: NextFn = jest.fn();
+
+    await expect(composeMiddleware([cached], handler)(request)).resolves.toMatchObject({ data: 'cached' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should let middleware recover from errors', async () => {
+    const fallback: Middleware = async (req, next) => {
+      try {
+        return await next(req);
+      } catch {
+        return { data: [], status: 200, headers: {} };
+      }
+    };
+    const handler: NextFn = jest.fn().mockRejectedValue(new Error('boom'));
+
+    await expect(composeMiddleware([fallback], handler)(request)).resolves.toMatchObject({ data: [] });
+  });
+});
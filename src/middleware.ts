@@ -0,0 +1,53 @@
+// middleware/pipeline.ts
+import { Method, ResponseType } from 'axios';
+import { RetryInfo, RetryOptions } from './retry';
+import { TransferProgress } from './transfer';
+import { Schema, ValidationMode } from './validation';
+
+// Per-call options accepted by every apiClient method. T is the type the response is validated to.
+export interface RequestOptions<T = any> {
+  retry?: boolean | RetryOptions; // `true`/an object opts this call in (e.g. for POST), `false` disables retries
+  onRetry?: (info: RetryInfo) => void; // Called before each retry of this call
+  signal?: AbortSignal; // Aborts the request (and any pending retries); rejects with a 'cancelled' ApiError
+  dedupe?: boolean; // Overrides the client's `dedupe` option for this GET
+  onUploadProgress?: (progress: TransferProgress) => void;
+  onDownloadProgress?: (progress: TransferProgress) => void;
+  schema?: Schema<T>; // Validates the response body; the call resolves to what the schema parsed
+  validation?: ValidationMode; // Overrides the client's `validation` option for this call
+}
+
+// The outgoing request as seen by middleware
+export interface ApiRequest {
+  method: Method;
+  url: string;
+  params?: Record<string, any>;
+  data?: any;
+  headers?: Record<string, string>;
+  responseType?: ResponseType; // e.g. 'blob' for downloads; defaults to JSON
+  options?: RequestOptions; // Not sent to the server
+}
+
+// The incoming response as seen by middleware
+export interface ApiResponse<T = any> {
+  data: T;
+  status: number;
+  headers: Record<string, any>;
+}
+
+// Passes the (possibly modified) request on to the rest of the pipeline
+export type NextFn = (request: ApiRequest) => Promise<ApiResponse>;
+
+// A middleware wraps everything registered after it, like layers of an onion:
+// - modify the request by calling `next` with a new request object
+// - modify the response by transforming what `next` resolves to
+// - inspect or recover from errors by catching what `next` rejects with (always an ApiError)
+// - short-circuit by returning a response without calling `next`
+// Middleware run in registration order on the way out and in reverse order on the way back.
+export type Middleware = (request: ApiRequest, next: NextFn) => Promise<ApiResponse>;
+
+// Chain middleware in front of the handler that actually sends the request
+export const composeMiddleware = (middleware: Middleware[], handler: NextFn): NextFn =>
+  middleware.reduceRight<NextFn>(
+    (next, current) => (request) => current(request, next),
+    handler,
+  );
@@ -0,0 +1,170 @@
+import { createMockApi } from './mockApi';
+import { createApiClient } from './api';
+import { ApiError } from './errors';
+import { createGenericStore } from './zustand';
+
+interface User {
+  id: number;
+  name: string;
+  role: string;
+}
+
+const seedUsers: User[] = [
+  { id: 1, name: 'Ada', role: 'admin' },
+  { id: 2, name: 'Grace', role: 'user' },
+  { id: 3, name: 'Linus', role: 'user' },
+];
+
+const setup = (options: Parameters<typeof createMockApi>[0] = {}) => {
+  const mockApi = createMockApi({ resources: { '/users': seedUsers }, ...options });
+  const client = createApiClient({ baseURL: 'http://api.test', transport: mockApi.transport, dedupe: false });
+  return { mockApi, client };
+};
+
+describe('createMockApi', () => {
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('should list a resource in the django pagination envelope', async () => {
+    const { client } = setup();
+
+    await expect(client.get('/users/', { page: 2, page_size: 2 })).resolves.toEqual({
+      objects: [{ id: 3, name: 'Linus', role: 'user' }],
+      current_page: 2,
+      num_pages: 2,
+      total_count: 3,
+    });
+  });
+
+  it('should filter, search and order lists', async () => {
+    const { client } = setup();
+
+    const filtered = await client.get('/users/', { role: 'user', ordering: '-name' });
+    expect(filtered.objects.map((user: User) => user.name)).toEqual(['Linus', 'Grace']);
+
+    const searched = await client.get('/users/', { search: 'GRA' });
+    expect(searched.objects).toEqual([{ id: 2, name: 'Grace', role: 'user' }]);
+  });
+
+  it('should create, read, update and delete by id', async () => {
+    const { mockApi, client } = setup();
+
+    await expect(client.post('/users/', { name: 'Alan', role: 'user' })).resolves.toEqual({ id: 4, name: 'Alan', role: 'user' });
+    await expect(client.get('/users/4/')).resolves.toEqual({ id: 4, name: 'Alan', role: 'user' });
+    await expect(client.patch('/users/4/', { role: 'admin' })).resolves.toEqual({ id: 4, name: 'Alan', role: 'admin' });
+    await expect(client.put('/users/4/', { name: 'Alan T.' })).resolves.toEqual({ id: 4, name: 'Alan T.' });
+    await client.delete('/users/1/');
+
+    expect(mockApi.data<User>('/users').map(user => user.id)).toEqual([2, 3, 4]);
+  });
+
+  it('should answer 404 for unknown ids and paths', async () => {
+    const { client } = setup();
+
+    await expect(client.get('/users/99/')).rejects.toMatchObject({ kind: 'http', status: 404, message: 'Not found.' });
+    await expect(client.get('/teams/')).rejects.toMatchObject({ kind: 'http', status: 404 });
+  });
+
+  it('should record requests for assertions', async () => {
+    const { mockApi, client } = setup();
+
+    await client.get('/users/', { role: 'admin' });
+    await client.post('/users/', { name: 'Alan' });
+
+    expect(mockApi.requests).toEqual([
+      expect.objectContaining({ method: 'get', url: '/users/', path: '/users', params: { role: 'admin' } }),
+      expect.objectContaining({ method: 'post', url: '/users/', path: '/users', data: { name: 'Alan' } }),
+    ]);
+  });
+
+  it('should inject failures for matching requests', async () => {
+    const { mockApi, client } = setup();
+    mockApi.fail({ method: 'post', url: '/users', status: 400, data: { name: ['This field is required.'] } });
+    mockApi.fail({ url: /\/users\/2/, kind: 'network', times: 2 });
+
+    const error = await client.post('/users/', {}).catch(err => err);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'http', status: 400, data: { name: ['This field is required.'] } });
+    await expect(client.post('/users/', { name: 'Alan' })).resolves.toMatchObject({ id: 4 }); // Failed once only
+
+    await expect(client.get('/users/2/')).rejects.toMatchObject({ kind: 'network' });
+    await expect(client.get('/users/2/')).rejects.toMatchObject({ kind: 'network' });
+    await expect(client.get('/users/2/')).resolves.toMatchObject({ name: 'Grace' });
+  });
+
+  it('should serve custom routes with path params', async () => {
+    const { mockApi, client } = setup();
+    mockApi.route('post', '/users/:id/promote', ({ pathParams }) => {
+      const user = mockApi.data<User>('/users').find(candidate => String(candidate.id) === pathParams.id)!;
+      user.role = 'admin';
+      return user;
+    });
+    mockApi.route('get', '/health', () => ({ status: 503, data: { detail: 'Down for maintenance' } }));
+
+    await expect(client.post('/users/2/promote/')).resolves.toMatchObject({ id: 2, role: 'admin' });
+    await expect(client.get('/health/')).rejects.toMatchObject({ status: 503, message: 'Down for maintenance' });
+  });
+
+  it('should delay responses by the configured latency and honor cancellation', async () => {
+    jest.useFakeTimers();
+    const { client } = setup({ latency: 200 });
+    const onResolved = jest.fn();
+
+    const pending = client.get('/users/1/').then(onResolved);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(onResolved).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(onResolved).toHaveBeenCalledWith({ id: 1, name: 'Ada', role: 'admin' });
+
+    const controller = new AbortController();
+    const cancelled = client.get('/users/1/', {}, { signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+
+  it('should restore the seed data on reset', async () => {
+    const { mockApi, client } = setup();
+    await client.delete('/users/1/');
+    mockApi.fail({ url: '/users' });
+
+    mockApi.reset();
+
+    expect(mockApi.data('/users')).toHaveLength(3);
+    expect(mockApi.requests).toEqual([]);
+    await expect(client.get('/users/')).resolves.toMatchObject({ total_count: 3 });
+  });
+
+  it('should run a generic store end to end', async () => {
+    const { mockApi, client } = setup();
+    const useUserStore = createGenericStore<User>('/users', { client, updateMethod: 'patch' });
+    const { fetchAll, create, update, remove } = useUserStore.getState();
+
+    await fetchAll!();
+    expect(useUserStore.getState().items).toHaveLength(3);
+
+    await create!({ name: 'Alan', role: 'user' });
+    await update!(2, { role: 'admin' });
+    await remove!(1);
+
+    expect(useUserStore.getState().items).toEqual([
+      { id: 2, name: 'Grace', role: 'admin' },
+      { id: 3, name: 'Linus', role: 'user' },
+      { id: 4, name: 'Alan', role: 'user' },
+    ]);
+    expect(mockApi.data('/users')).toEqual(useUserStore.getState().items);
+
+    mockApi.fail({ method: 'delete', status: 403, data: { detail: 'Not allowed.' } });
+    await remove!(2);
+    expect(useUserStore.getState().error?.message).toBe('Not allowed.');
+    expect(useUserStore.getState().items).toHaveLength(3);
+  });
+});
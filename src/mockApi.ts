@@ -0,0 +1,304 @@
+// testing/mockApi.ts
+import { ApiError } from './errors';
+import { ApiRequest, ApiResponse } from './middleware';
+import { Transport } from './api';
+
+type EntityId = string | number;
+type Entity = { id: EntityId } & Record<string, any>;
+
+// A request received by the mock API, recorded for assertions
+export interface RecordedRequest {
+  method: string; // Lowercase, e.g. 'post'
+  url: string;
+  path: string; // url without query string, base URL or trailing slash
+  params?: Record<string, any>;
+  data?: any;
+  headers?: Record<string, string>;
+}
+
+// Which requests a failure or route applies to; every given field must match
+export interface RequestMatcher {
+  method?: string;
+  url?: string | RegExp; // A string matches the normalized path exactly, e.g. '/users/1'
+}
+
+// A failure returned instead of the normal response
+export interface MockFailure extends RequestMatcher {
+  status?: number; // HTTP status of the error response; defaults to 500
+  data?: any; // Error response body
+  kind?: 'network' | 'timeout'; // Fail without a response instead
+  times?: number; // How many matching requests fail; defaults to 1, Infinity for all
+}
+
+// The list response envelope; defaults to the one djangoAdapter expects
+export type MockEnvelope = (page: {
+  items: any[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}) => any;
+
+export interface MockApiOptions {
+  resources?: Record<string, Entity[]>; // Seed data keyed by collection path, e.g. { '/users': [...] }
+  latency?: number | [number, number]; // Delay (ms) before each response, or a random delay within a range
+  pageSize?: number; // Default page size of lists; defaults to 20
+  envelope?: MockEnvelope;
+}
+
+// A handler for a route the REST resources don't cover, e.g. a custom action.
+// Return the response body, or { status, data } to set the status too.
+export type MockRouteHandler = (request: RecordedRequest & { pathParams: Record<string, string> }) =>
+  any | Promise<any>;
+
+export interface MockApi {
+  transport: Transport; // Pass as the `transport` option of createApiClient or initApiClient
+  readonly requests: RecordedRequest[];
+  resource: <T extends Entity>(path: string, seed?: T[]) => T[]; // Adds or resets a collection; returns its live data
+  data: <T extends Entity>(path: string) => T[]; // Current entities of a collection
+  route: (method: string, path: string, handler: MockRouteHandler) => void; // Path may contain :placeholders
+  fail: (failure: MockFailure) => void;
+  setLatency: (latency: number | [number, number]) => void;
+  reset: () => void; // Restores the seed data and clears requests, failures and latency
+}
+
+const NOT_FOUND = { detail: 'Not found.' };
+
+// Lists take these params; any other param filters entities by field equality
+const RESERVED_PARAMS = ['page', 'page_size', 'search', 'ordering'];
+
+const djangoEnvelope: MockEnvelope = ({ items, page, totalCount, totalPages }) => ({
+  objects: items,
+  current_page: page,
+  num_pages: totalPages,
+  total_count: totalCount,
+});
+
+// Strip the query string, origin and trailing slash, e.g. 'http://api/users/1/?a=1' -> '/users/1'
+const normalizePath = (url: string): string => {
+  const path = url.split('?')[0].replace(/^[a-z]+:\/\/[^/]+/i, '');
+  return `/${path.replace(/^\/+|\/+$/g, '')}`;
+};
+
+const matches = (matcher: RequestMatcher, request: RecordedRequest): boolean =>
+  (!matcher.method || matcher.method.toLowerCase() === request.method)
+  && (!matcher.url || (typeof matcher.url === 'string' ? normalizePath(matcher.url) === request.path : matcher.url.test(request.url)));
+
+const matchRoute = (template: string, path: string): Record<string, string> | null => {
+  const names: string[] = [];
+  const pattern = normalizePath(template).replace(/:([A-Za-z_]\w*)/g, (_placeholder, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  const match = new RegExp(`^${pattern}$`).exec(path);
+  if (!match) return null;
+  return names.reduce((params, name, index) => ({ ...params, [name]: decodeURIComponent(match[index + 1]) }), {});
+};
+
+const sameId = (a: EntityId, b: EntityId) => String(a) === String(b);
+
+// Simulates REST resources in memory, e.g. to test stores end to end without a network:
+// GET /users (paginated, filterable), GET/PUT/PATCH/DELETE /users/:id and POST /users.
+export const createMockApi = (options: MockApiOptions = {}): MockApi => {
+  const seeds: Record<string, Entity[]> = { ...options.resources };
+  let collections: Record<string, Entity[]> = {};
+  let requests: RecordedRequest[] = [];
+  let failures: MockFailure[] = [];
+  let routes: Array<{ method: string; path: string; handler: MockRouteHandler }> = [];
+  let latency = options.latency ?? 0;
+  const pageSize = options.pageSize ?? 20;
+  const envelope = options.envelope || djangoEnvelope;
+
+  const resetCollections = () => {
+    collections = Object.keys(seeds).reduce((result, path) => ({
+      ...result,
+      [normalizePath(path)]: seeds[path].map(entity => ({ ...entity })),
+    }), {} as Record<string, Entity[]>);
+  };
+  resetCollections();
+
+  const respond = (status: number, data?: any): ApiResponse => ({ status, data, headers: {} });
+
+  const wait = (request: ApiRequest): Promise<void> => {
+    const ms = Array.isArray(latency) ? latency[0] + Math.random() * (latency[1] - latency[0]) : latency;
+    const signal = request.options?.signal;
+    const cancelled = () => new ApiError('Request cancelled', { kind: 'cancelled', method: request.method, url: request.url });
+    if (signal?.aborted) {
+      return Promise.reject(cancelled());
+    }
+    if (ms <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  // Find the collection a path belongs to: the collection itself, or one of its entities
+  const resolve = (path: string): { collection: string; id?: string } | null => {
+    if (collections[path]) {
+      return { collection: path };
+    }
+    const parent = path.slice(0, path.lastIndexOf('/')) || '/';
+    if (collections[parent]) {
+      return { collection: parent, id: decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) };
+    }
+    return null;
+  };
+
+  const list = (entities: Entity[], params: Record<string, any> = {}): ApiResponse => {
+    let items = entities.filter(entity => Object.keys(params)
+      .filter(key => !RESERVED_PARAMS.includes(key) && params[key] !== undefined)
+      .every(key => String(entity[key]) === String(params[key])));
+    if (params.search) {
+      const term = String(params.search).toLowerCase();
+      items = items.filter(entity => Object.keys(entity).some(key =>
+        typeof entity[key] === 'string' && entity[key].toLowerCase().includes(term)));
+    }
+    if (params.ordering) {
+      const descending = String(params.ordering).startsWith('-');
+      const field = String(params.ordering).replace(/^-/, '');
+      items = [...items].sort((a, b) => {
+        if (a[field] === b[field]) return 0;
+        return (a[field] > b[field] ? 1 : -1) * (descending ? -1 : 1);
+      });
+    }
+    const size = Number(params.page_size) || pageSize;
+    const page = Number(params.page) || 1;
+    const totalPages = Math.max(1, Math.ceil(items.length / size));
+    return respond(200, envelope({
+      items: items.slice((page - 1) * size, page * size),
+      page,
+      pageSize: size,
+      totalCount: items.length,
+      totalPages,
+    }));
+  };
+
+  const nextId = (entities: Entity[]): number =>
+    entities.reduce((max, entity) => (typeof entity.id === 'number' && entity.id > max ? entity.id : max), 0) + 1;
+
+  // Multipart bodies become plain objects so they can be stored and asserted on
+  const toBody = (data: any): any => {
+    if (typeof FormData !== 'undefined' && data instanceof FormData) {
+      const body: Record<string, any> = {};
+      data.forEach((value, key) => {
+        body[key] = key in body ? [].concat(body[key], value as any) : value;
+      });
+      return body;
+    }
+    return data;
+  };
+
+  const handleRest = (recorded: RecordedRequest): ApiResponse => {
+    const target = resolve(recorded.path);
+    if (!target) {
+      return respond(404, NOT_FOUND);
+    }
+    const entities = collections[target.collection];
+    const { method } = recorded;
+    if (target.id === undefined) {
+      if (method === 'get') {
+        return list(entities, recorded.params);
+      }
+      if (method === 'post') {
+        const body = toBody(recorded.data) || {};
+        const created = { ...body, id: body.id ?? nextId(entities) };
+        entities.push(created);
+        return respond(201, { ...created });
+      }
+      return respond(405, { detail: `Method "${method.toUpperCase()}" not allowed.` });
+    }
+    const index = entities.findIndex(entity => sameId(entity.id, target.id as string));
+    if (index === -1) {
+      return respond(404, NOT_FOUND);
+    }
+    if (method === 'get') {
+      return respond(200, { ...entities[index] });
+    }
+    if (method === 'put' || method === 'patch') {
+      const body = toBody(recorded.data) || {};
+      const base = method === 'patch' ? entities[index] : {};
+      entities[index] = { ...base, ...body, id: entities[index].id };
+      return respond(200, { ...entities[index] });
+    }
+    if (method === 'delete') {
+      entities.splice(index, 1);
+      return respond(204);
+    }
+    return respond(405, { detail: `Method "${method.toUpperCase()}" not allowed.` });
+  };
+
+  const transport: Transport = async (request) => {
+    const recorded: RecordedRequest = {
+      method: request.method.toLowerCase(),
+      url: request.url,
+      path: normalizePath(request.url),
+      ...(request.params && { params: request.params }),
+      ...(request.data !== undefined && { data: request.data }),
+      ...(request.headers && { headers: request.headers }),
+    };
+    requests.push(recorded);
+    await wait(request);
+
+    const failure = failures.find(candidate => matches(candidate, recorded));
+    if (failure) {
+      failure.times = (failure.times ?? 1) - 1;
+      if (failure.times <= 0) {
+        failures = failures.filter(candidate => candidate !== failure);
+      }
+      if (failure.kind) {
+        const message = failure.kind === 'timeout' ? 'Request timed out' : 'No response from server';
+        throw new ApiError(message, { kind: failure.kind, method: recorded.method, url: request.url });
+      }
+      return respond(failure.status ?? 500, failure.data ?? { detail: 'Mock failure.' });
+    }
+
+    for (const route of routes) {
+      const pathParams = route.method === recorded.method ? matchRoute(route.path, recorded.path) : null;
+      if (pathParams) {
+        const result = await route.handler({ ...recorded, pathParams });
+        return result && typeof result === 'object' && typeof result.status === 'number' && 'data' in result
+          ? respond(result.status, result.data)
+          : respond(200, result);
+      }
+    }
+    return handleRest(recorded);
+  };
+
+  return {
+    transport,
+    get requests() {
+      return [...requests];
+    },
+    resource: <T extends Entity>(path: string, seed: T[] = []) => {
+      seeds[path] = seed;
+      collections[normalizePath(path)] = seed.map(entity => ({ ...entity }));
+      return collections[normalizePath(path)] as T[];
+    },
+    data: <T extends Entity>(path: string) => (collections[normalizePath(path)] || []) as T[],
+    route: (method, path, handler) => {
+      routes.push({ method: method.toLowerCase(), path, handler });
+    },
+    fail: (failure) => {
+      failures.push({ ...failure });
+    },
+    setLatency: (next) => {
+      latency = next;
+    },
+    reset: () => {
+      resetCollections();
+      requests = [];
+      failures = [];
+      latency = options.latency ?? 0;
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { createManualConnectivity, isConflict, loadQueue, saveQueue, shouldRetryLater } from './offline';
+import { createMemoryStorage } from './persistence';
+import { ApiError } from './errors';
+
+describe('createManualConnectivity', () => {
+  it('should notify listeners of changes only', () => {
+    const connectivity = createManualConnectivity(false);
+    const listener = jest.fn();
+    const unsubscribe = connectivity.subscribe(listener);
+
+    connectivity.setOnline(false);
+    connectivity.setOnline(true);
+    unsubscribe();
+    connectivity.setOnline(false);
+
+    expect(listener.mock.calls).toEqual([[true]]);
+    expect(connectivity.isOnline()).toBe(false);
+  });
+});
+
+describe('offline queue storage', () => {
+  it('should save and load the queue, removing it once empty', async () => {
+    const storage = createMemoryStorage();
+    const queue = [{ id: 'm1', action: 'remove' as const, entityId: 3, queuedAt: 1 }];
+
+    saveQueue(storage, 'queue', queue);
+    await Promise.resolve();
+    await expect(loadQueue(storage, 'queue')).resolves.toEqual(queue);
+
+    saveQueue(storage, 'queue', []);
+    await Promise.resolve();
+    expect(storage.getItem('queue')).toBeNull();
+  });
+
+  it('should start empty when the stored queue is unreadable', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = createMemoryStorage();
+    storage.setItem('queue', '{not json');
+
+    await expect(loadQueue(storage, 'queue')).resolves.toEqual([]);
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('replay failure classification', () => {
+  it('should tell conflicts from failures worth retrying', () => {
+    expect(isConflict(new ApiError('Conflict', { kind: 'http', status: 409 }))).toBe(true);
+    expect(isConflict(new ApiError('Precondition failed', { kind: 'http', status: 412 }))).toBe(true);
+    expect(shouldRetryLater(new ApiError('No response from server', { kind: 'network' }))).toBe(true);
+    expect(shouldRetryLater(new ApiError('Bad request', { kind: 'http', status: 400 }))).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+// stores/offlineQueue.ts
+import { StateStorage } from 'zustand/middleware';
+import { isApiError, isHttpError } from './errors';
+import { PathParams } from './endpoints';
+import { getLogger } from './logger';
+
+// Whether the device can reach the API, and a way to hear about changes
+export interface Connectivity {
+  isOnline: () => boolean;
+  subscribe: (listener: (online: boolean) => void) => () => void; // Returns an unsubscribe function
+}
+
+// Connectivity reported by the browser (navigator.onLine and online/offline events).
+// Always online where those are unavailable, e.g. on the server.
+export const browserConnectivity: Connectivity = {
+  isOnline: () => (typeof navigator === 'undefined' ? true : navigator.onLine !== false),
+  subscribe: (listener) => {
+    if (typeof window === 'undefined') {
+      return () => {};
+    }
+    const onOnline = () => listener(true);
+    const onOffline = () => listener(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  },
+};
+
+// Connectivity switched by hand, e.g. in tests or from a native network status API
+export interface ManualConnectivity extends Connectivity {
+  setOnline: (online: boolean) => void;
+}
+
+export const createManualConnectivity = (initiallyOnline = true): ManualConnectivity => {
+  let online = initiallyOnline;
+  const listeners = new Set<(online: boolean) => void>();
+  return {
+    isOnline: () => online,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setOnline: (next) => {
+      if (next === online) return;
+      online = next;
+      listeners.forEach(listener => listener(next));
+    },
+  };
+};
+
+// A mutation made while offline, waiting to be sent
+export interface QueuedMutation {
+  id: string;
+  action: 'create' | 'update' | 'remove';
+  entityId: string | number; // The temporary id for creates, replaced by the server id once replayed
+  payload?: any; // Body of creates and updates
+  pathParams?: PathParams;
+  queuedAt: number;
+}
+
+export interface OfflineOptions<T> {
+  key: string; // Storage key of the queue
+  storage?: StateStorage; // Defaults to localStorage, or to memory where localStorage is unavailable
+  connectivity?: Connectivity; // Defaults to browserConnectivity
+  onReplayed?: (mutation: QueuedMutation, result: T | undefined) => void;
+  onConflict?: (mutation: QueuedMutation, error: Error) => void; // The server answered 409 or 412; the mutation is dropped
+  onFailure?: (mutation: QueuedMutation, error: Error) => void; // Any other rejection; the mutation is dropped
+}
+
+let mutationCounter = 0;
+export const createMutationId = (): string => `mutation-${Date.now().toString(36)}-${++mutationCounter}`;
+
+export const loadQueue = async (storage: StateStorage, key: string): Promise<QueuedMutation[]> => {
+  try {
+    const stored = await storage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    getLogger().error('Could not read the offline queue', { key, error });
+    return [];
+  }
+};
+
+export const saveQueue = (storage: StateStorage, key: string, queue: QueuedMutation[]) => {
+  Promise.resolve()
+    .then(() => (queue.length > 0 ? storage.setItem(key, JSON.stringify(queue)) : storage.removeItem(key)))
+    .catch(error => getLogger().error('Could not save the offline queue', { key, error }));
+};
+
+export const isConflict = (error: unknown): boolean => isHttpError(error, 409) || isHttpError(error, 412);
+
+// Failures that say nothing about the mutation itself; it stays queued and is replayed later
+export const shouldRetryLater = (error: unknown): boolean =>
+  isApiError(error) && ['network', 'timeout', 'cancelled', 'setup'].includes(error.kind);
@@ -0,0 +1,37 @@
+import { createMemoryStorage, migratePersisted, pickPersisted } from './persistence';
+
+describe('createMemoryStorage', () => {
+  it('should store strings by name', () => {
+    const storage = createMemoryStorage();
+
+    storage.setItem('users', '{"state":{}}');
+    expect(storage.getItem('users')).toBe('{"state":{}}');
+    storage.removeItem('users');
+    expect(storage.getItem('users')).toBeNull();
+  });
+});
+
+describe('pickPersisted', () => {
+  it('should keep only the requested persistable fields', () => {
+    const state = { items: [1], meta: { currentPage: 1 }, loading: true, error: new Error('x') };
+
+    expect(pickPersisted(state, ['items', 'loading' as any])).toEqual({ items: [1] });
+    expect(pickPersisted(state, ['items', 'meta', 'search'])).toEqual({ items: [1], meta: { currentPage: 1 } });
+  });
+});
+
+describe('migratePersisted', () => {
+  const migrations = {
+    1: (state: any) => ({ ...state, items: state.rows }),
+    3: (state: any) => ({ ...state, search: state.search ?? '' }),
+  };
+
+  it('should run every migration after the persisted version in order', () => {
+    expect(migratePersisted({ rows: [1] }, 0, 3, migrations)).toEqual({ rows: [1], items: [1], search: '' });
+    expect(migratePersisted({ items: [1] }, 1, 3, migrations)).toEqual({ items: [1], search: '' });
+  });
+
+  it('should discard state written by a newer version', () => {
+    expect(migratePersisted({ items: [1] }, 4, 3, migrations)).toEqual({});
+  });
+});
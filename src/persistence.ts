@@ -0,0 +1,73 @@
+// stores/persistence.ts
+import { StateStorage } from 'zustand/middleware';
+
+export type { StateStorage } from 'zustand/middleware';
+
+// State a generic store can persist. Transient state (loading, error, status, pendingIds, ...) never is.
+export type PersistField = 'items' | 'item' | 'meta' | 'lastParams' | 'filters' | 'sort' | 'search';
+
+export const persistableFields: PersistField[] = ['items', 'item', 'meta', 'lastParams', 'filters', 'sort', 'search'];
+
+// Upgrades persisted state written by the previous version
+export type Migration = (state: any) => any;
+
+export interface PersistOptions {
+  key: string; // Storage key; scoped stores add their path params to it
+  // Sync (localStorage, sessionStorage) or async (IndexedDB wrappers) storage of strings.
+  // Defaults to localStorage, or to memory where localStorage is unavailable (e.g. on the server).
+  storage?: StateStorage;
+  fields?: PersistField[]; // Defaults to every persistable field
+  version?: number; // Version of the persisted shape; defaults to 0
+  migrations?: Record<number, Migration>; // Keyed by the version each migration produces, e.g. { 2: v1ToV2 }
+}
+
+// Controls of a persisted store, available as `useStore.persist`
+export interface PersistApi {
+  rehydrate: () => Promise<void> | void; // Reads the storage again
+  hasHydrated: () => boolean; // False until async storage has been read
+  onFinishHydration: (listener: () => void) => () => void;
+  clearStorage: () => void;
+}
+
+// Storage keeping everything in memory, e.g. for tests
+export const createMemoryStorage = (): StateStorage => {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (name) => entries.get(name) ?? null,
+    setItem: (name, value) => {
+      entries.set(name, value);
+    },
+    removeItem: (name) => {
+      entries.delete(name);
+    },
+  };
+};
+
+export const getDefaultStorage = (): StateStorage =>
+  (typeof localStorage !== 'undefined' ? localStorage : createMemoryStorage());
+
+// Only the given fields, and never anything that isn't persistable
+export const pickPersisted = (state: Record<string, any>, fields: PersistField[]): Record<string, any> =>
+  fields
+    .filter(field => persistableFields.includes(field) && field in state)
+    .reduce((picked, field) => ({ ...picked, [field]: state[field] }), {} as Record<string, any>);
+
+// Run the migrations between the persisted version and the current one, in order.
+// State written by a newer version can't be migrated back and is discarded.
+export const migratePersisted = (
+  state: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Record<number, Migration> = {},
+): unknown => {
+  if (fromVersion > toVersion) {
+    return {};
+  }
+  let migrated = state;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    if (migrations[version]) {
+      migrated = migrations[version](migrated);
+    }
+  }
+  return migrated;
+};
@@ -0,0 +1,13 @@
+import { getQueryKey } from './queryKeys';
+
+describe('getQueryKey', () => {
+  it('should not depend on param order or undefined values', () => {
+    expect(getQueryKey('/users', { page: 2, search: 'ada', filter: undefined }))
+      .toBe(getQueryKey('/users', { search: 'ada', page: 2 }));
+  });
+
+  it('should distinguish endpoints and params', () => {
+    expect(getQueryKey('/users', { page: 1 })).not.toBe(getQueryKey('/users', { page: 2 }));
+    expect(getQueryKey('/users')).not.toBe(getQueryKey('/teams'));
+  });
+});
@@ -0,0 +1,20 @@
+// utils/queryKeys.ts
+
+// Serialize params with sorted keys so equivalent queries share a key
+const serializeParams = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeParams).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${serializeParams(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+// Key identifying a list query, e.g. `/users?{"page":2}`
+export const getQueryKey = (endpoint: string, params: Record<string, any> = {}): string =>
+  `${endpoint}?${serializeParams(params)}`;
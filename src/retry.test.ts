@@ -0,0 +1,107 @@
+import { createRetryMiddleware, RetryOptions } from './retry';
+import { ApiError } from './errors';
+import { ApiRequest, composeMiddleware, NextFn } from './middleware';
+
+const ok = { data: 'ok', status: 200, headers: {} };
+const serverError = (status = 503, headers?: Record<string, any>) =>
+  new ApiError('Server Error', { kind: 'http', status, headers });
+
+// Handler failing with the given errors before succeeding
+const failingTimes = (...errors: unknown[]): jest.MockedFunction<NextFn> => {
+  const handler = jest.fn<ReturnType<NextFn>, Parameters<NextFn>>();
+  errors.forEach(error => handler.mockRejectedValueOnce(error));
+  handler.mockResolvedValue(ok);
+  return handler;
+};
+
+const send = (policy: RetryOptions | false | undefined, handler: NextFn, request: ApiRequest) =>
+  composeMiddleware([createRetryMiddleware(() => policy)], handler)(request);
+
+// Keep tests fast and deterministic
+const fast: RetryOptions = { baseDelay: 1, jitter: false };
+
+describe('createRetryMiddleware', () => {
+  it('should not retry when no policy is configured', async () => {
+    const handler = failingTimes(serverError());
+
+    await expect(send(undefined, handler, { method: 'get', url: '/a' })).rejects.toMatchObject({ status: 503 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry idempotent methods until they succeed', async () => {
+    const handler = failingTimes(serverError(), new ApiError('No response from server', { kind: 'network' }));
+
+    await expect(send(fast, handler, { method: 'get', url: '/a' })).resolves.toBe(ok);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop after maxAttempts', async () => {
+    const handler = failingTimes(serverError(), serverError(), serverError());
+
+    await expect(send({ ...fast, maxAttempts: 2 }, handler, { method: 'put', url: '/a' })).rejects.toMatchObject({ status: 503 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry POST unless the call opts in', async () => {
+    const handler = failingTimes(serverError());
+    await expect(send(fast, handler, { method: 'post', url: '/a' })).rejects.toBeInstanceOf(ApiError);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    const optedIn = failingTimes(serverError());
+    await expect(send(fast, optedIn, { method: 'post', url: '/a', options: { retry: true } })).resolves.toBe(ok);
+    expect(optedIn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let a call enable or disable retries regardless of the client policy', async () => {
+    const enabled = failingTimes(serverError());
+    await expect(send(undefined, enabled, { method: 'get', url: '/a', options: { retry: fast } })).resolves.toBe(ok);
+
+    const disabled = failingTimes(serverError());
+    await expect(send(fast, disabled, { method: 'get', url: '/a', options: { retry: false } })).rejects.toBeInstanceOf(ApiError);
+    expect(disabled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry retryable errors', async () => {
+    const notFound = failingTimes(serverError(404));
+    const cancelled = failingTimes(new ApiError('Request cancelled', { kind: 'cancelled' }));
+    const plain = failingTimes(new Error('boom'));
+
+    await expect(send(fast, notFound, { method: 'get', url: '/a' })).rejects.toMatchObject({ status: 404 });
+    await expect(send(fast, cancelled, { method: 'get', url: '/a' })).rejects.toMatchObject({ kind: 'cancelled' });
+    await expect(send(fast, plain, { method: 'get', url: '/a' })).rejects.toThrow('boom');
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(cancelled).toHaveBeenCalledTimes(1);
+    expect(plain).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially and report each retry', async () => {
+    const onRetry = jest.fn();
+    const callOnRetry = jest.fn();
+    const handler = failingTimes(serverError(), serverError());
+
+    await send({ baseDelay: 2, jitter: false, onRetry }, handler, { method: 'get', url: '/a', options: { onRetry: callOnRetry } });
+
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delay])).toEqual([[1, 2], [2, 4]]);
+    expect(callOnRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep jittered delays between half and the full backoff', async () => {
+    const onRetry = jest.fn();
+    const handler = failingTimes(serverError());
+
+    await send({ baseDelay: 10, jitter: true, onRetry }, handler, { method: 'get', url: '/a' });
+
+    const { delay } = onRetry.mock.calls[0][0];
+    expect(delay).toBeGreaterThanOrEqual(5);
+    expect(delay).toBeLessThanOrEqual(10);
+  });
+
+  it('should honor Retry-After, capped by maxDelay', async () => {
+    const onRetry = jest.fn();
+    const handler = failingTimes(serverError(429, { 'retry-after': '0.005' }), serverError(429, { 'retry-after': '120' }));
+
+    await send({ ...fast, maxDelay: 20, onRetry }, handler, { method: 'get', url: '/a' });
+
+    expect(onRetry.mock.calls.map(([info]) => info.delay)).toEqual([5, 20]);
+  });
+});
@@ -0,0 +1,135 @@
+// retry/retryPolicy.ts
+import { Method } from 'axios';
+import { ApiError, isApiError } from './errors';
+import { ApiRequest, Middleware } from './middleware';
+
+// Details passed to onRetry callbacks before waiting for the next attempt
+export interface RetryInfo {
+  attempt: number; // The retry about to be made, starting at 1
+  error: ApiError; // The error that caused the retry
+  delay: number; // Milliseconds until the retry is sent
+}
+
+// Retry policy, set globally through initApiClient and overridable per call
+export interface RetryOptions {
+  maxAttempts?: number; // Total attempts including the first one
+  baseDelay?: number; // Delay before the first retry in ms, doubled for every further retry
+  maxDelay?: number; // Upper bound for any delay, including Retry-After
+  jitter?: boolean; // Randomize delays so clients don't retry in lockstep
+  retryOn?: number[]; // HTTP status codes worth retrying; network errors and timeouts always are
+  methods?: Method[]; // Methods the global policy applies to; per-call `retry` ignores this
+  onRetry?: (info: RetryInfo) => void;
+}
+
+type RetryPolicy = Required<Omit<RetryOptions, 'onRetry'>> & Pick<RetryOptions, 'onRetry'>;
+
+// Only idempotent methods are retried unless a call opts in
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  methods: ['get', 'put', 'delete'],
+};
+
+// Combine defaults, the client policy and the per-call override.
+// Returns null when the request shouldn't be retried at all.
+const resolvePolicy = (clientPolicy: RetryOptions | false | undefined, request: ApiRequest): RetryPolicy | null => {
+  const callPolicy = request.options?.retry;
+  if (callPolicy === false) {
+    return null;
+  }
+  if (callPolicy === undefined || callPolicy === null) {
+    if (!clientPolicy) {
+      return null;
+    }
+    const policy = { ...DEFAULT_RETRY_POLICY, ...clientPolicy };
+    return policy.methods.includes(request.method.toLowerCase() as Method) ? policy : null;
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(callPolicy === true ? {} : callPolicy),
+  };
+};
+
+const isRetryable = (error: unknown, policy: RetryPolicy): error is ApiError => {
+  if (!isApiError(error)) {
+    return false;
+  }
+  if (error.kind === 'network' || error.kind === 'timeout') {
+    return true;
+  }
+  return error.kind === 'http' && error.status !== undefined && policy.retryOn.includes(error.status);
+};
+
+// Parse a Retry-After header (seconds or HTTP date) into milliseconds
+const getRetryAfter = (error: ApiError): number | undefined => {
+  const value = error.headers?.['retry-after'] ?? error.headers?.['Retry-After'];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const getDelay = (attempt: number, error: ApiError, policy: RetryPolicy): number => {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  // "Equal jitter": keep at least half of the backoff so retries still spread out
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+};
+
+// Wait before the next attempt, giving up early if the request is aborted meanwhile
+const sleep = (ms: number, request: ApiRequest) => new Promise<void>((resolve, reject) => {
+  const signal = request.options?.signal;
+  const cancelled = () => new ApiError('Request cancelled', {
+    kind: 'cancelled',
+    method: request.method,
+    url: request.url,
+  });
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Middleware retrying failed requests with exponential backoff.
+// The client policy is read per request so re-initializing the client takes effect immediately.
+export const createRetryMiddleware = (getClientPolicy: () => RetryOptions | false | undefined): Middleware =>
+  async (request, next) => {
+    const policy = resolvePolicy(getClientPolicy(), request);
+    if (!policy) {
+      return next(request);
+    }
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next(request);
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+          throw error;
+        }
+        const info: RetryInfo = { attempt, error, delay: getDelay(attempt, error, policy) };
+        policy.onRetry?.(info);
+        request.options?.onRetry?.(info);
+        await sleep(info.delay, request);
+      }
+    }
+  };
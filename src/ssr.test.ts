@@ -0,0 +1,173 @@
+import { dehydrateStores, hydrateStores } from './ssr';
+import { createGenericStore, createVanillaGenericStore } from './zustand';
+import { createApiClient } from './api';
+import { createMockApi } from './mockApi';
+import { createEntityCache } from './entities';
+import { createMemoryStorage } from './persistence';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const mockApi = createMockApi({
+  resources: {
+    '/users': [{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }],
+    '/teams/1/members': [{ id: 3, name: 'Linus' }],
+  },
+});
+
+// A client per request, e.g. forwarding that request's cookies
+const createRequestClient = (cookie: string) => createApiClient({
+  baseURL: 'http://api.test',
+  transport: mockApi.transport,
+  headers: { Cookie: cookie },
+});
+
+// Serialized into the page by the server and parsed back in the browser
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('server-side rendering', () => {
+  const useUserStore = createGenericStore<User>('/users', { staleTime: 60000, client: createRequestClient('') });
+
+  beforeEach(() => {
+    mockApi.reset();
+  });
+
+  it('should create independent store instances per request', async () => {
+    const first = useUserStore.createInstance({ client: createRequestClient('session=a') });
+    const second = useUserStore.createInstance({ client: createRequestClient('session=b') });
+
+    await first.getState().fetchAll!();
+
+    expect(first.getState().items).toHaveLength(2);
+    expect(second.getState().items).toEqual([]);
+    expect(useUserStore.getState().items).toEqual([]);
+    expect(mockApi.requests).toEqual([expect.objectContaining({ url: '/users/', params: {} })]);
+  });
+
+  it('should prefetch on the server and hydrate in the browser without refetching', async () => {
+    const serverStore = useUserStore.createInstance({ client: createRequestClient('session=a') });
+    await serverStore.getState().fetchAll!({ page: 1 });
+    await serverStore.getState().fetchOne!(2);
+    const snapshot = roundTrip(serverStore.getState().dehydrate());
+
+    const browserStore = useUserStore.createInstance({ client: createRequestClient('') });
+    browserStore.getState().hydrate(snapshot);
+
+    expect(browserStore.getState()).toMatchObject({
+      items: [{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }],
+      item: { id: 2, name: 'Grace' },
+      lastParams: { page: 1 },
+      meta: { currentPage: 1, totalPages: 1, totalCount: 2 },
+      loading: false,
+    });
+    expect(browserStore.getState().status.fetchAll.lastFetchedAt).toBe(snapshot.fetchedAt.fetchAll);
+
+    await browserStore.getState().fetchAll!({ page: 1 });
+    await browserStore.getState().fetchOne!(2);
+    expect(mockApi.requests).toHaveLength(2); // Only the server's requests
+  });
+
+  it('should revalidate hydrated data once it is stale', async () => {
+    const useFreshStore = createGenericStore<User>('/users', { client: createRequestClient('') });
+    const serverStore = useFreshStore.createInstance();
+    serverStore.getState().hydrate({
+      state: { ...serverStore.getState().dehydrate().state, items: [{ id: 1, name: 'Old' }] },
+      fetchedAt: { fetchAll: Date.now(), fetchOne: null },
+    });
+
+    const pending = serverStore.getState().fetchAll!();
+    expect(serverStore.getState().items).toEqual([{ id: 1, name: 'Old' }]); // Shown while revalidating
+    await pending;
+
+    expect(serverStore.getState().items).toHaveLength(2);
+  });
+
+  it('should not cache data that was never fetched', async () => {
+    const serverStore = useUserStore.createInstance();
+    const browserStore = useUserStore.createInstance();
+
+    browserStore.getState().hydrate(roundTrip(serverStore.getState().dehydrate()));
+    await browserStore.getState().fetchAll!();
+
+    expect(mockApi.requests).toHaveLength(1);
+    expect(browserStore.getState().items).toHaveLength(2);
+  });
+
+  it('should dehydrate and hydrate several stores at once', async () => {
+    const useMemberStore = createGenericStore<User>('/teams/:teamId/members', {
+      staleTime: 60000,
+      client: createRequestClient(''),
+    });
+    const serverStores = {
+      users: useUserStore.createInstance(),
+      members: useMemberStore.scope({ teamId: 1 }).createInstance(),
+    };
+    await Promise.all([serverStores.users.getState().fetchAll!(), serverStores.members.getState().fetchAll!()]);
+
+    const snapshots = roundTrip(dehydrateStores(serverStores));
+    const browserStores = {
+      users: useUserStore.createInstance(),
+      members: useMemberStore.scope({ teamId: 1 }).createInstance(),
+      unrelated: useUserStore.createInstance(),
+    };
+    hydrateStores(browserStores, snapshots);
+
+    expect(Object.keys(snapshots)).toEqual(['users', 'members']);
+    expect(browserStores.users.getState().items).toHaveLength(2);
+    expect(browserStores.members.getState().items).toEqual([{ id: 3, name: 'Linus' }]);
+    expect(browserStores.unrelated.getState().items).toEqual([]);
+  });
+
+  it('should only snapshot the fields chosen by the persist option', async () => {
+    const useListStore = createGenericStore<User>('/users', {
+      staleTime: 60000,
+      client: createRequestClient(''),
+      persist: { key: 'users', storage: createMemoryStorage(), fields: ['items', 'meta'] },
+    });
+    const serverStore = useListStore.createInstance();
+    await serverStore.getState().fetchAll!();
+    await serverStore.getState().fetchOne!(1);
+    const snapshot = roundTrip(serverStore.getState().dehydrate());
+
+    const browserStore = useListStore.createInstance();
+    browserStore.getState().hydrate(snapshot);
+    await browserStore.getState().fetchOne!(1);
+
+    expect(Object.keys(snapshot.state)).toEqual(['items', 'meta']);
+    expect(browserStore.getState().items).toHaveLength(2);
+    expect(mockApi.requests.map(request => request.url)).toEqual(['/users/', '/users/1/', '/users/1/']);
+  });
+
+  it('should share hydrated entities through an entity cache', () => {
+    const entityCache = createEntityCache<User>();
+    const browserStore = useUserStore.createInstance({ entityCache });
+
+    browserStore.getState().hydrate({
+      state: { ...browserStore.getState().dehydrate().state, items: [{ id: 1, name: 'Ada' }] },
+      fetchedAt: { fetchAll: Date.now(), fetchOne: null },
+    });
+
+    expect(entityCache.selectById(1)).toEqual({ id: 1, name: 'Ada' });
+  });
+});
+
+describe('createVanillaGenericStore', () => {
+  beforeEach(() => {
+    mockApi.reset();
+  });
+
+  it('should work without React', async () => {
+    const userStore = createVanillaGenericStore<User>('/users', { client: createRequestClient('session=a') });
+    const listener = jest.fn();
+    userStore.subscribe(listener);
+
+    await userStore.getState().create!({ name: 'Alan' });
+
+    expect(userStore.getState().items).toContainEqual({ id: 3, name: 'Alan' });
+    expect(listener).toHaveBeenCalled();
+    expect(typeof userStore.createInstance().getState().fetchAll).toBe('function');
+    expect(userStore.scope({ tenant: 'acme' })).toBe(userStore.scope({ tenant: 'acme' }));
+  });
+});
@@ -0,0 +1,29 @@
+// ssr/hydration.ts
+import { DehydratedState } from './zustand';
+
+// Any generic store, with or without the hook
+interface HydratableStore {
+  getState: () => {
+    dehydrate: () => DehydratedState<any>;
+    hydrate: (snapshot: DehydratedState<any>) => void;
+  };
+}
+
+// Snapshots of several stores keyed like the stores passed to dehydrateStores
+export type DehydratedStores = Record<string, DehydratedState<any>>;
+
+// Snapshot every store, e.g. at the end of a server request to render into the page
+export const dehydrateStores = (stores: Record<string, HydratableStore>): DehydratedStores =>
+  Object.keys(stores).reduce((snapshots, key) => ({
+    ...snapshots,
+    [key]: stores[key].getState().dehydrate(),
+  }), {} as DehydratedStores);
+
+// Restore the snapshots into the stores with the same keys; stores without a snapshot are left as-is
+export const hydrateStores = (stores: Record<string, HydratableStore>, snapshots: DehydratedStores | undefined): void => {
+  Object.keys(stores).forEach(key => {
+    if (snapshots?.[key]) {
+      stores[key].getState().hydrate(snapshots[key]);
+    }
+  });
+};
@@ -0,0 +1,42 @@
+import { toFormData, toTransferProgress } from './transfer';
+
+describe('toFormData', () => {
+  it('should send a single file or an array under the field name', () => {
+    const avatar = new Blob(['a']);
+    const photos = [new Blob(['1']), new Blob(['2'])];
+
+    expect(toFormData(avatar).getAll('file')).toHaveLength(1);
+    expect(toFormData(photos, {}, 'photos').getAll('photos')).toHaveLength(2);
+  });
+
+  it('should append files keyed by field and extra fields', () => {
+    const form = toFormData(
+      { avatar: new Blob(['a']), attachments: [new Blob(['1']), new Blob(['2'])] },
+      { title: 'Report', tags: ['a', 'b'], meta: { draft: true }, skipped: undefined },
+    );
+
+    expect(form.getAll('avatar')).toHaveLength(1);
+    expect(form.getAll('attachments')).toHaveLength(2);
+    expect(form.get('title')).toBe('Report');
+    expect(form.getAll('tags')).toEqual(['a', 'b']);
+    expect(form.get('meta')).toBe('{"draft":true}');
+    expect(form.has('skipped')).toBe(false);
+  });
+
+  it('should add fields to a FormData passed as-is', () => {
+    const form = new FormData();
+    form.append('file', new Blob(['a']));
+
+    expect(toFormData(form, { title: 'Report' })).toBe(form);
+    expect(form.get('title')).toBe('Report');
+  });
+});
+
+describe('toTransferProgress', () => {
+  it('should compute the percentage when the total is known', () => {
+    expect(toTransferProgress({ loaded: 25, total: 200, bytes: 25, lengthComputable: true }))
+      .toEqual({ loaded: 25, total: 200, percent: 13 });
+    expect(toTransferProgress({ loaded: 25, bytes: 25, lengthComputable: false }))
+      .toEqual({ loaded: 25, total: null, percent: null });
+  });
+});
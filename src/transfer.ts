@@ -0,0 +1,55 @@
+// utils/transfer.ts
+import { AxiosProgressEvent } from 'axios';
+
+// Progress of an upload or download
+export interface TransferProgress {
+  loaded: number; // Bytes sent or received so far
+  total: number | null; // Null when the size is unknown, e.g. without a Content-Length header
+  percent: number | null; // 0-100, null when the total is unknown
+}
+
+// Files to upload: a ready FormData, one or more files sent under a single field, or files keyed by field name
+export type UploadFiles = FormData | Blob | Blob[] | Record<string, Blob | Blob[]>;
+
+export const toTransferProgress = (event: AxiosProgressEvent): TransferProgress => {
+  const total = event.total ?? null;
+  return {
+    loaded: event.loaded,
+    total,
+    percent: total ? Math.min(100, Math.round((event.loaded / total) * 100)) : null,
+  };
+};
+
+const appendField = (form: FormData, name: string, value: any) => {
+  if (value === undefined || value === null) return;
+  if (value instanceof Blob) {
+    form.append(name, value);
+  } else if (typeof value === 'object') {
+    form.append(name, JSON.stringify(value)); // Nested values can't be expressed as form fields
+  } else {
+    form.append(name, String(value));
+  }
+};
+
+// Build the multipart body of an upload. Fields are appended after the files;
+// array fields repeat the name, like a multi-select form input.
+export const toFormData = (files: UploadFiles, fields: Record<string, any> = {}, fieldName = 'file'): FormData => {
+  let form: FormData;
+  if (files instanceof FormData) {
+    form = files;
+  } else {
+    form = new FormData();
+    const byField: Record<string, Blob | Blob[]> = files instanceof Blob || Array.isArray(files)
+      ? { [fieldName]: files }
+      : files;
+    Object.keys(byField).forEach(name => {
+      const value = byField[name];
+      (Array.isArray(value) ? value : [value]).forEach(file => form.append(name, file));
+    });
+  }
+  Object.keys(fields).forEach(name => {
+    const value = fields[name];
+    (Array.isArray(value) ? value : [value]).forEach(item => appendField(form, name, item));
+  });
+  return form;
+};
@@ -0,0 +1,115 @@
+import { createUploadStore } from './uploads';
+import { ApiClient } from './api';
+import { ApiError } from './errors';
+
+const createClient = () => ({ upload: jest.fn() }) as unknown as jest.Mocked<ApiClient>;
+
+describe('createUploadStore', () => {
+  it('should track progress and the result of an upload', async () => {
+    const client = createClient();
+    const store = createUploadStore({ client });
+    let report: (progress: any) => void = () => {};
+    let respond: (value: any) => void = () => {};
+    client.upload.mockImplementation((_url, _files, options) => {
+      report = options!.onUploadProgress!;
+      return new Promise(resolve => { respond = resolve; });
+    });
+    const onUploadProgress = jest.fn();
+
+    const pending = store.getState().upload('/documents', new File(['abc'], 'report.pdf'), {
+      id: 'report',
+      fields: { title: 'Q3' },
+      onUploadProgress,
+    });
+
+    expect(store.getState().uploads.report).toMatchObject({ name: 'report.pdf', status: 'uploading', percent: null });
+    expect(store.getState().uploading).toBe(true);
+    expect(client.upload).toHaveBeenCalledWith('/documents', expect.any(File), expect.objectContaining({
+      fields: { title: 'Q3' },
+      signal: expect.any(AbortSignal),
+    }));
+
+    report({ loaded: 1, total: 3, percent: 33 });
+    expect(store.getState().uploads.report).toMatchObject({ loaded: 1, total: 3, percent: 33 });
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 1, total: 3, percent: 33 });
+
+    respond({ id: 7 });
+    const finished = await pending;
+
+    expect(finished).toMatchObject({ id: 'report', status: 'success', percent: 100, result: { id: 7 } });
+    expect(store.getState().uploading).toBe(false);
+  });
+
+  it('should record failures without throwing', async () => {
+    const client = createClient();
+    const store = createUploadStore({ client });
+    const failure = new ApiError('Too large', { kind: 'http', status: 413 });
+    client.upload.mockRejectedValue(failure);
+
+    const finished = await store.getState().upload('/documents', new Blob(['abc']));
+
+    expect(finished).toMatchObject({ status: 'error', error: failure, name: null });
+  });
+
+  it('should limit concurrent uploads and skip cancelled queued ones', async () => {
+    const client = createClient();
+    const store = createUploadStore({ client, concurrency: 2 });
+    const resolvers: Array<() => void> = [];
+    client.upload.mockImplementation(() => new Promise(resolve => { resolvers.push(() => resolve({ ok: true })); }));
+
+    const pending = store.getState().uploadMany('/photos', [new Blob(['1']), new Blob(['2']), new Blob(['3'])]);
+    const ids = Object.keys(store.getState().uploads);
+
+    expect(client.upload).toHaveBeenCalledTimes(2);
+    expect(store.getState().uploads[ids[2]].status).toBe('queued');
+
+    store.getState().cancel(ids[2]);
+    resolvers.forEach(resolve => resolve());
+    const finished = await pending;
+
+    expect(finished.map(upload => upload.status)).toEqual(['success', 'success', 'cancelled']);
+    expect(client.upload).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort running uploads and clear finished ones', async () => {
+    const client = createClient();
+    const store = createUploadStore({ client });
+    client.upload.mockImplementation((_url, _files, options) => new Promise((_resolve, reject) => {
+      options!.signal!.addEventListener('abort', () => reject(new ApiError('Request cancelled', { kind: 'cancelled' })));
+    }));
+
+    const pending = store.getState().upload('/documents', new Blob(['abc']), { id: 'doc' });
+    store.getState().cancelAll();
+    const finished = await pending;
+
+    expect(finished.status).toBe('cancelled');
+    store.getState().clear();
+    expect(store.getState().uploads).toEqual({});
+  });
+
+  it('should leave the entry to the new upload when an id is reused', async () => {
+    const client = createClient();
+    const store = createUploadStore({ client });
+    const reports: Array<(progress: any) => void> = [];
+    const responses: Array<(value: any) => void> = [];
+    client.upload.mockImplementation((_url, _files, options) => new Promise((resolve, reject) => {
+      reports.push(options!.onUploadProgress!);
+      responses.push(resolve);
+      options!.signal!.addEventListener('abort', () => {
+        reports[0]({ loaded: 2, total: 3, percent: 66 }); // Progress reported late by the replaced upload
+        reject(new ApiError('Request cancelled', { kind: 'cancelled' }));
+      });
+    }));
+
+    const first = store.getState().upload('/documents', new Blob(['abc']), { id: 'doc' });
+    const second = store.getState().upload('/documents', new Blob(['abcd']), { id: 'doc' });
+
+    expect((await first).status).toBe('cancelled');
+    expect(store.getState().uploads.doc).toMatchObject({ status: 'uploading', loaded: 0 });
+    expect(store.getState().uploading).toBe(true);
+
+    responses[1]({ id: 8 });
+    expect(await second).toMatchObject({ status: 'success', result: { id: 8 } });
+    expect(store.getState().uploads.doc.status).toBe('success');
+  });
+});
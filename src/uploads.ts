@@ -0,0 +1,171 @@
+// stores/uploadStore.ts
+import { create } from 'zustand';
+import { apiClient, ApiClient, UploadOptions } from './api';
+import { isApiError } from './errors';
+import { UploadFiles } from './transfer';
+import { mapSettled } from './concurrency';
+
+export type UploadStatus = 'queued' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+// One upload as tracked in the store
+export interface Upload<T = any> {
+  id: string;
+  name: string | null; // File name when a single File is uploaded
+  status: UploadStatus;
+  loaded: number; // Bytes sent so far
+  total: number | null;
+  percent: number | null; // 0-100, null while the size is unknown
+  error: Error | null;
+  result: T | null; // Response body of a successful upload
+}
+
+// Per-call options of the store's upload actions; the store provides the abort signal
+export interface UploadCallOptions extends Omit<UploadOptions, 'signal'> {
+  id?: string; // Id of the upload in `uploads`; generated when omitted (upload only)
+  concurrency?: number; // Uploads in flight at once (uploadMany only); defaults to the store's concurrency
+}
+
+export interface UploadState<T = any> {
+  uploads: Record<string, Upload<T>>; // Keyed by upload id, in the order they were started
+  uploading: boolean; // True while any upload is queued or in progress
+  // Resolve to the finished upload; failures are reported in its status and error rather than thrown
+  upload: (url: string, files: UploadFiles, options?: UploadCallOptions) => Promise<Upload<T>>;
+  uploadMany: (url: string, files: UploadFiles[], options?: UploadCallOptions) => Promise<Array<Upload<T>>>;
+  cancel: (id: string) => void; // Aborts a running upload, or skips a queued one
+  cancelAll: () => void;
+  clear: () => void; // Removes finished uploads
+}
+
+export interface UploadStoreOptions {
+  client?: ApiClient; // Defaults to the global apiClient configured via initApiClient
+  concurrency?: number; // Files uploadMany sends at once; defaults to 3
+}
+
+let uploadCounter = 0;
+const createUploadId = (): string => `upload-${++uploadCounter}`;
+
+const getFileName = (files: UploadFiles): string | null =>
+  (typeof File !== 'undefined' && files instanceof File ? files.name : null);
+
+const isActive = (upload: Upload) => upload.status === 'queued' || upload.status === 'uploading';
+
+// Create a store tracking file uploads with their progress, e.g. to render progress bars
+export const createUploadStore = <T = any>(options: UploadStoreOptions = {}) =>
+  create<UploadState<T>>((set, get) => {
+    const client = options.client || apiClient;
+    // Controllers of queued and running uploads. Their entries are kept by clear() until they settle.
+    const controllers = new Map<string, AbortController>();
+
+    const patchUpload = (id: string, patch: Partial<Upload<T>>) => {
+      set(state => {
+        if (!state.uploads[id]) return {};
+        const uploads = { ...state.uploads, [id]: { ...state.uploads[id], ...patch } };
+        return { uploads, uploading: Object.keys(uploads).some(key => isActive(uploads[key])) };
+      });
+    };
+
+    const enqueue = (id: string, files: UploadFiles) => {
+      controllers.get(id)?.abort(); // Reusing an id replaces the upload
+      controllers.set(id, new AbortController());
+      set(state => ({
+        uploads: {
+          ...state.uploads,
+          [id]: {
+            id,
+            name: getFileName(files),
+            status: 'queued',
+            loaded: 0,
+            total: null,
+            percent: null,
+            error: null,
+            result: null,
+          },
+        },
+        uploading: true,
+      }));
+    };
+
+    const run = async (id: string, url: string, files: UploadFiles, callOptions: UploadCallOptions): Promise<Upload<T>> => {
+      const controller = controllers.get(id);
+      if (!controller || controller.signal.aborted) {
+        controllers.delete(id);
+        return get().uploads[id];
+      }
+      const { id: _id, concurrency: _concurrency, onUploadProgress, ...uploadOptions } = callOptions;
+      // Once its id is reused, this upload no longer owns the entry and only reports to its caller
+      let upload = get().uploads[id];
+      const update = (patch: Partial<Upload<T>>) => {
+        upload = { ...upload, ...patch };
+        if (controllers.get(id) === controller) {
+          patchUpload(id, patch);
+        }
+      };
+      update({ status: 'uploading' });
+      try {
+        const result = await client.upload<T>(url, files, {
+          ...uploadOptions,
+          signal: controller.signal,
+          onUploadProgress: (progress) => {
+            update(progress);
+            onUploadProgress?.(progress);
+          },
+        });
+        update({ status: 'success', result, percent: 100 });
+      } catch (error) {
+        const cancelled = controller.signal.aborted || (isApiError(error) && error.kind === 'cancelled');
+        update(cancelled
+          ? { status: 'cancelled' }
+          : { status: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+      } finally {
+        if (controllers.get(id) === controller) {
+          controllers.delete(id);
+        }
+      }
+      return upload;
+    };
+
+    const cancel = (id: string) => {
+      const controller = controllers.get(id);
+      if (!controller) return;
+      controller.abort();
+      if (get().uploads[id]?.status === 'queued') {
+        patchUpload(id, { status: 'cancelled' });
+      }
+    };
+
+    return {
+      uploads: {},
+      uploading: false,
+
+      upload: (url, files, callOptions = {}) => {
+        const id = callOptions.id || createUploadId();
+        enqueue(id, files);
+        return run(id, url, files, callOptions);
+      },
+
+      uploadMany: async (url, fileList, callOptions = {}) => {
+        const queued = fileList.map(files => {
+          const id = createUploadId();
+          enqueue(id, files);
+          return { id, files };
+        });
+        const settled = await mapSettled(
+          queued,
+          callOptions.concurrency ?? options.concurrency ?? 3,
+          ({ id, files }) => run(id, url, files, callOptions),
+        );
+        return settled.map((outcome, index) => (outcome.ok ? outcome.value : get().uploads[queued[index].id]));
+      },
+
+      cancel,
+      cancelAll: () => Array.from(controllers.keys()).forEach(cancel),
+
+      clear: () => {
+        set(state => ({
+          uploads: Object.keys(state.uploads)
+            .filter(id => controllers.has(id) || isActive(state.uploads[id]))
+            .reduce((uploads, id) => ({ ...uploads, [id]: state.uploads[id] }), {} as Record<string, Upload<T>>),
+        }));
+      },
+    };
+  });
@@ -0,0 +1,60 @@
+import { InferSchema, Schema, validateResponse } from './validation';
+import { ApiError } from './errors';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const isUser = (data: any): data is User => typeof data?.id === 'number' && typeof data?.name === 'string';
+
+const safeParseSchema: Schema<User> = {
+  safeParse: (data) => (isUser(data) ? { success: true, data } : { success: false, error: new Error('Expected a user') }),
+};
+
+const parseSchema = {
+  parse: (data: unknown): User => {
+    if (!isUser(data)) throw new Error('Expected a user');
+    return { id: data.id, name: data.name }; // Strips unknown fields, like zod
+  },
+};
+
+describe('validateResponse', () => {
+  it('should return the parsed data when valid', () => {
+    const user: InferSchema<typeof parseSchema> = validateResponse(parseSchema, { id: 1, name: 'Ann', extra: true });
+
+    expect(user).toEqual({ id: 1, name: 'Ann' });
+    expect(validateResponse(safeParseSchema, { id: 2, name: 'Bob' })).toEqual({ id: 2, name: 'Bob' });
+  });
+
+  it('should throw a validation ApiError with the response and the validator error', () => {
+    const call = () => validateResponse(safeParseSchema, { id: '1' }, { method: 'get', url: '/users/', path: 'items[0]' });
+
+    expect(call).toThrow(ApiError);
+    expect(call).toThrow('Response validation failed for GET /users/ at items[0]');
+    try {
+      call();
+    } catch (error: any) {
+      expect(error).toMatchObject({ kind: 'validation', method: 'get', url: '/users/', data: { id: '1' } });
+      expect(error.originalError).toEqual(new Error('Expected a user'));
+    }
+  });
+
+  it('should catch errors thrown by parse', () => {
+    expect(() => validateResponse(parseSchema, null)).toThrow('Response validation failed');
+  });
+
+  it('should warn and return the data unchanged in warn mode', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const data = validateResponse(parseSchema, { id: '1' }, { method: 'get', url: '/users/1/' }, 'warn');
+
+    expect(data).toEqual({ id: '1' });
+    expect(warnSpy).toHaveBeenCalledWith('Response validation failed for GET /users/1/', {
+      method: 'get',
+      url: '/users/1/',
+      error: new Error('Expected a user'),
+    });
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+// validation/schema.ts
+import { ApiError } from './errors';
+import { getLogger, Logger } from './logger';
+
+export type SafeParseResult<T> = { success: true; data: T } | { success: false; error: unknown };
+
+// Any validator with a zod-style `safeParse` or `parse` method (zod schemas work as-is).
+// `parse` must throw when the data is invalid.
+export type Schema<T> =
+  | { safeParse: (data: unknown) => SafeParseResult<T> }
+  | { parse: (data: unknown) => T };
+
+// The type a schema validates to, e.g. `type User = InferSchema<typeof userSchema>`
+export type InferSchema<S> = S extends Schema<infer T> ? T : never;
+
+// What happens when a response doesn't match its schema:
+// - 'throw': the call fails with a 'validation' ApiError
+// - 'warn': the mismatch is logged and the unvalidated data is used, e.g. while rolling schemas out
+export type ValidationMode = 'throw' | 'warn';
+
+// Where the validated data came from, used in error messages
+export interface ValidationContext {
+  method?: string;
+  url?: string;
+  path?: string; // Location within the response, e.g. 'items[3]'
+}
+
+const runSchema = <T>(schema: Schema<T>, data: unknown): SafeParseResult<T> => {
+  if ('safeParse' in schema) {
+    return schema.safeParse(data);
+  }
+  try {
+    return { success: true, data: schema.parse(data) };
+  } catch (error) {
+    return { success: false, error };
+  }
+};
+
+// Validate a response against a schema, returning what the schema parsed it to
+export const validateResponse = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  context: ValidationContext = {},
+  mode: ValidationMode = 'throw',
+  logger: Logger = getLogger(), // Receives the warning in 'warn' mode
+): T => {
+  const result = runSchema(schema, data);
+  if (result.success) {
+    return result.data;
+  }
+  const target = [context.method?.toUpperCase(), context.url].filter(Boolean).join(' ');
+  const location = context.path ? ` at ${context.path}` : '';
+  const message = `Response validation failed${target ? ` for ${target}` : ''}${location}`;
+  if (mode === 'warn') {
+    logger.warn(message, { ...context, error: result.error });
+    return data as T;
+  }
+  throw new ApiError(message, {
+    kind: 'validation',
+    method: context.method?.toLowerCase(),
+    url: context.url,
+    data,
+    originalError: result.error,
+  });
+};
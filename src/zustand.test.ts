@@ -1,5 +1,13 @@
-import { createGenericStore, GenericState, GenericActions, ActionType } from './zustand';
+import { createGenericStore, isTempId, GenericState, GenericActions, ActionType } from './zustand';
 import { apiClient } from './api';
+import { ApiError, isApiError } from './errors';
+import { arrayAdapter, createCursorAdapter, drfAdapter } from './adapters';
+import { createEntityCache } from './entities';
+import { getQueryKey } from './queryKeys';
+import { defineCustomActions } from './customActions';
+import { createMemoryStorage } from './persistence';
+import { createManualConnectivity } from './offline';
+import { createLogger } from './logger';
 
 // Mock the api module
 jest.mock('./api', () => ({
@@ -7,12 +15,17 @@ jest.mock('./api', () => ({
     get: jest.fn(),
     post: jest.fn(),
     put: jest.fn(),
+    patch: jest.fn(),
     delete: jest.fn(),
+    request: jest.fn(),
   },
 }));
 
 const mockedApiClient = apiClient as jest.Mocked<typeof apiClient>;
 
+// Per-call options the store passes with every request
+const requestOptions = expect.objectContaining({ onRetry: expect.any(Function) });
+
 interface TestItem {
   id: number;
   name: string;
@@ -29,6 +42,7 @@ interface MockListResponse {
 // Define the type for the store hook returned by createGenericStore
 // This makes it easier to reference the store type
 type TestStore = ReturnType<typeof createGenericStore<TestItem>>;
+type TestStoreState = ReturnType<TestStore['getState']>;
 
 describe('createGenericStore', () => {
   const endpoint = '/test-items';
@@ -40,6 +54,7 @@ describe('createGenericStore', () => {
     mockedApiClient.get.mockResolvedValue({ objects: [] }); // Default mock
     mockedApiClient.post.mockResolvedValue({});
     mockedApiClient.put.mockResolvedValue({});
+    mockedApiClient.patch.mockResolvedValue({});
     mockedApiClient.delete.mockResolvedValue(undefined);
 
     // Create a fresh store instance for each test with all actions
@@ -74,6 +89,8 @@ describe('createGenericStore', () => {
       expect(state.create).toBeUndefined();
       expect(state.update).toBeUndefined();
       expect(state.remove).toBeUndefined();
+      expect(state.createMany).toBeUndefined();
+      expect(state.removeMany).toBeUndefined();
     });
     
     it('should include all actions when none specified', () => {
@@ -87,6 +104,9 @@ describe('createGenericStore', () => {
       expect(typeof state.create).toBe('function');
       expect(typeof state.update).toBe('function');
       expect(typeof state.remove).toBe('function');
+      expect(typeof state.createMany).toBe('function');
+      expect(typeof state.updateMany).toBe('function');
+      expect(typeof state.removeMany).toBe('function');
     });
     
     it('should handle dependency between actions when some are excluded', async () => {
@@ -104,7 +124,7 @@ describe('createGenericStore', () => {
         await state.create({ name: 'New Item' });
       }
       
-      expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, { name: 'New Item' });
+      expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, { name: 'New Item' }, requestOptions);
       // Shouldn't try to call fetchAll
       expect(mockedApiClient.get).not.toHaveBeenCalled();
     });
@@ -135,7 +155,7 @@ describe('createGenericStore', () => {
         await fetchPromise; // Wait for completion
 
         // Check final state and mocks
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, params);
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, params, requestOptions);
         expect(useTestStore.getState().items).toEqual(mockItems);
         expect(useTestStore.getState().meta).toEqual({
           currentPage: mockResponse.current_page,
@@ -157,13 +177,27 @@ describe('createGenericStore', () => {
         expect(useTestStore.getState().loading).toBe(true);
         await fetchPromise;
 
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {});
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {}, requestOptions);
         expect(useTestStore.getState().items).toEqual([]);
         expect(useTestStore.getState().error).toEqual(mockError);
         expect(useTestStore.getState().loading).toBe(false);
       }
     });
 
+    it('should store ApiError instances as-is', async () => {
+      const apiError = new ApiError('Not Found', { kind: 'http', status: 404, data: { detail: 'Not Found' } });
+      mockedApiClient.get.mockRejectedValue(apiError);
+
+      const state = useTestStore.getState();
+      if (state.fetchAll) {
+        await state.fetchAll();
+
+        const { error } = useTestStore.getState();
+        expect(error).toBe(apiError);
+        expect(isApiError(error) && error.status).toBe(404);
+      }
+    });
+
     it('should handle missing fields in API response gracefully', async () => {
       const incompleteResponse = { objects: mockItems };
       mockedApiClient.get.mockResolvedValue(incompleteResponse);
@@ -183,6 +217,326 @@ describe('createGenericStore', () => {
     });
   });
 
+  describe('responseAdapter', () => {
+    it('should map list responses with the store adapter', async () => {
+      mockedApiClient.get.mockResolvedValue([{ id: 1, name: 'Plain' }]);
+      const arrayStore = createGenericStore<TestItem>(endpoint, { responseAdapter: arrayAdapter });
+
+      const state = arrayStore.getState();
+      if (state.fetchAll) {
+        await state.fetchAll();
+      }
+
+      expect(arrayStore.getState().items).toEqual([{ id: 1, name: 'Plain' }]);
+      expect(arrayStore.getState().meta).toEqual({ currentPage: 1, totalPages: 1, totalCount: 1 });
+    });
+
+    it('should fall back to the client adapter', async () => {
+      const drfClient = {
+        ...mockedApiClient,
+        responseAdapter: drfAdapter,
+        get: jest.fn().mockResolvedValue({ count: 1, next: null, previous: null, results: [{ id: 4, name: 'DRF' }] }),
+      };
+      const drfStore = createGenericStore<TestItem>(endpoint, { client: drfClient });
+
+      const state = drfStore.getState();
+      if (state.fetchAll) {
+        await state.fetchAll();
+      }
+
+      expect(drfStore.getState().items).toEqual([{ id: 4, name: 'DRF' }]);
+      expect(drfStore.getState().meta).toMatchObject({ currentPage: 1, totalPages: 1, totalCount: 1 });
+    });
+  });
+
+  describe('retrying', () => {
+    it('should flag retries until the request settles', async () => {
+      let finish: (value: unknown) => void = () => {};
+      mockedApiClient.get.mockImplementation((url, params, options) => {
+        options?.onRetry?.({ attempt: 1, delay: 100, error: new ApiError('Server Error', { kind: 'http', status: 503 }) });
+        return new Promise(resolve => { finish = resolve; });
+      });
+
+      const state = useTestStore.getState();
+      if (state.fetchAll) {
+        const fetchPromise = state.fetchAll();
+        expect(useTestStore.getState().retrying).toBe(true);
+
+        finish({ objects: [] });
+        await fetchPromise;
+
+        expect(useTestStore.getState().retrying).toBe(false);
+        expect(useTestStore.getState().loading).toBe(false);
+      }
+    });
+  });
+
+  describe('per-action status', () => {
+    it('should start every action idle', () => {
+      const { status, pendingIds, itemErrors } = useTestStore.getState();
+      expect(status.fetchAll).toEqual({ loading: false, error: null, lastFetchedAt: null });
+      expect(status.remove).toEqual({ loading: false, error: null, lastFetchedAt: null });
+      expect(pendingIds).toEqual([]);
+      expect(itemErrors).toEqual({});
+    });
+
+    it('should track loading per action while keeping the aggregate flag', async () => {
+      let finishFetch: (value: unknown) => void = () => {};
+      let finishDelete: (value: unknown) => void = () => {};
+      mockedApiClient.get.mockImplementationOnce(() => new Promise(resolve => { finishFetch = resolve; }));
+      mockedApiClient.delete.mockImplementationOnce(() => new Promise(resolve => { finishDelete = resolve; }));
+      // Without fetchAll, remove doesn't refetch the list
+      const detailStore = createGenericStore<TestItem>(endpoint, { actions: ['fetchOne', 'remove'] });
+
+      const state = detailStore.getState();
+      if (state.fetchOne && state.remove) {
+        const fetchPromise = state.fetchOne(1);
+        const removePromise = state.remove(5);
+
+        expect(detailStore.getState().status.fetchOne.loading).toBe(true);
+        expect(detailStore.getState().status.remove.loading).toBe(true);
+        expect(detailStore.getState().pendingIds).toEqual([5]);
+
+        finishDelete(undefined);
+        await removePromise;
+        // The remove finished, but the slow fetchOne is still loading
+        expect(detailStore.getState().status.remove.loading).toBe(false);
+        expect(detailStore.getState().pendingIds).toEqual([]);
+        expect(detailStore.getState().loading).toBe(true);
+
+        finishFetch({ id: 1, name: 'Item' });
+        await fetchPromise;
+        expect(detailStore.getState().loading).toBe(false);
+        expect(detailStore.getState().status.fetchOne.lastFetchedAt).toEqual(expect.any(Number));
+      }
+    });
+
+    it('should record errors on the failing action and item only', async () => {
+      const mockError = new Error('Delete failed');
+      mockedApiClient.delete.mockRejectedValue(mockError);
+
+      const state = useTestStore.getState();
+      if (state.remove) {
+        await state.remove(7);
+      }
+
+      const { status, itemErrors, error, pendingIds } = useTestStore.getState();
+      expect(status.remove.error).toBe(mockError);
+      expect(status.fetchAll.error).toBeNull();
+      expect(itemErrors).toEqual({ '7': mockError });
+      expect(pendingIds).toEqual([]);
+      expect(error).toBe(mockError); // Aggregate error is kept for backwards compatibility
+    });
+
+    it('should clear an item error when the item is mutated again', async () => {
+      mockedApiClient.put.mockRejectedValueOnce(new Error('Update failed'));
+
+      const state = useTestStore.getState();
+      if (state.update) {
+        await state.update(3, { name: 'Broken' });
+        expect(useTestStore.getState().itemErrors['3']).toBeDefined();
+
+        mockedApiClient.put.mockResolvedValueOnce({ id: 3, name: 'Fixed' });
+        await state.update(3, { name: 'Fixed' });
+        expect(useTestStore.getState().itemErrors).toEqual({});
+      }
+    });
+  });
+
+  describe('optimistic updates', () => {
+    const existing: TestItem[] = [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }];
+    // Without fetchAll, mutations don't refetch, so local changes stay visible
+    let optimisticStore: TestStore;
+
+    beforeEach(() => {
+      optimisticStore = createGenericStore<TestItem>(endpoint, {
+        actions: ['fetchOne', 'create', 'update', 'remove'],
+        optimistic: true,
+      });
+      optimisticStore.setState({
+        items: existing,
+        item: existing[0],
+        meta: { currentPage: 1, totalPages: 1, totalCount: 2 },
+      } as Partial<TestStoreState>);
+    });
+
+    // Keep the request pending so the optimistic state can be inspected
+    const deferred = () => {
+      let resolve: (value: any) => void = () => {};
+      let reject: (error: unknown) => void = () => {};
+      const promise = new Promise((res, rej) => { resolve = res; reject = rej; });
+      return { promise, resolve, reject };
+    };
+
+    it('should add a created item with a temporary id and swap in the server entity', async () => {
+      const request = deferred();
+      mockedApiClient.post.mockReturnValue(request.promise);
+
+      const createPromise = optimisticStore.getState().create!({ name: 'Three' });
+      const { items, meta, pendingIds } = optimisticStore.getState();
+      expect(items).toHaveLength(3);
+      expect(items[2]).toMatchObject({ name: 'Three' });
+      expect(isTempId(items[2].id)).toBe(true);
+      expect(pendingIds).toEqual([items[2].id]);
+      expect(meta.totalCount).toBe(3);
+
+      request.resolve({ id: 3, name: 'Three' });
+      await createPromise;
+
+      expect(optimisticStore.getState().items).toEqual([...existing, { id: 3, name: 'Three' }]);
+      expect(optimisticStore.getState().pendingIds).toEqual([]);
+    });
+
+    it('should remove the temporary item when create fails', async () => {
+      const mockError = new Error('Create failed');
+      mockedApiClient.post.mockRejectedValue(mockError);
+
+      await optimisticStore.getState().create!({ name: 'Three' });
+
+      expect(optimisticStore.getState().items).toEqual(existing);
+      expect(optimisticStore.getState().meta.totalCount).toBe(2);
+      expect(optimisticStore.getState().error).toBe(mockError);
+      expect(optimisticStore.getState().pendingIds).toEqual([]);
+    });
+
+    it('should apply updates immediately and reconcile with the server response', async () => {
+      const request = deferred();
+      mockedApiClient.put.mockReturnValue(request.promise);
+
+      const updatePromise = optimisticStore.getState().update!(1, { name: 'Uno' });
+      expect(optimisticStore.getState().items[0]).toEqual({ id: 1, name: 'Uno' });
+      expect(optimisticStore.getState().item).toEqual({ id: 1, name: 'Uno' });
+
+      request.resolve({ id: 1, name: 'Uno', value: 'server-computed' });
+      await updatePromise;
+
+      expect(optimisticStore.getState().items[0]).toEqual({ id: 1, name: 'Uno', value: 'server-computed' });
+      expect(optimisticStore.getState().item).toEqual({ id: 1, name: 'Uno', value: 'server-computed' });
+    });
+
+    it('should roll back updates and record the error on failure', async () => {
+      const mockError = new Error('Update failed');
+      mockedApiClient.put.mockRejectedValue(mockError);
+
+      await optimisticStore.getState().update!(1, { name: 'Uno' });
+
+      expect(optimisticStore.getState().items).toEqual(existing);
+      expect(optimisticStore.getState().item).toEqual(existing[0]);
+      expect(optimisticStore.getState().itemErrors['1']).toBe(mockError);
+    });
+
+    it('should remove immediately and restore the item in place on failure', async () => {
+      const request = deferred();
+      mockedApiClient.delete.mockReturnValue(request.promise);
+
+      const removePromise = optimisticStore.getState().remove!(1);
+      expect(optimisticStore.getState().items).toEqual([existing[1]]);
+      expect(optimisticStore.getState().item).toBeNull();
+      expect(optimisticStore.getState().meta.totalCount).toBe(1);
+
+      request.reject(new Error('Delete failed'));
+      await removePromise;
+
+      expect(optimisticStore.getState().items).toEqual(existing);
+      expect(optimisticStore.getState().item).toEqual(existing[0]);
+      expect(optimisticStore.getState().meta.totalCount).toBe(2);
+    });
+
+    it('should let a call override the store setting', async () => {
+      const request = deferred();
+      mockedApiClient.delete.mockReturnValue(request.promise);
+
+      const removePromise = optimisticStore.getState().remove!(1, { optimistic: false });
+      expect(optimisticStore.getState().items).toEqual(existing);
+
+      request.resolve(undefined);
+      await removePromise;
+
+      // Opting in on a non-optimistic store
+      mockedApiClient.put.mockReturnValue(new Promise(() => {}));
+      useTestStore.setState({ items: existing } as Partial<TestStoreState>);
+      useTestStore.getState().update!(2, { name: 'Dos' }, { optimistic: true });
+      expect(useTestStore.getState().items[1]).toEqual({ id: 2, name: 'Dos' });
+    });
+  });
+
+  describe('cancellation', () => {
+    // Resolve mocked GET responses by hand to control the order they arrive in
+    const deferredGets = () => {
+      const pending: Array<{ resolve: (value: unknown) => void; signal?: AbortSignal }> = [];
+      mockedApiClient.get.mockImplementation((url, params, options) => new Promise(resolve => {
+        pending.push({ resolve, signal: options?.signal });
+      }));
+      return pending;
+    };
+
+    it('should keep the latest fetchAll result when responses arrive out of order', async () => {
+      const pending = deferredGets();
+
+      const state = useTestStore.getState();
+      if (state.fetchAll) {
+        const first = state.fetchAll({ search: 'a' });
+        const second = state.fetchAll({ search: 'ab' });
+
+        expect(pending[0].signal?.aborted).toBe(true);
+        expect(pending[1].signal?.aborted).toBe(false);
+
+        pending[1].resolve({ objects: [{ id: 2, name: 'ab' }] });
+        await second;
+        pending[0].resolve({ objects: [{ id: 1, name: 'a' }] });
+        await first;
+
+        expect(useTestStore.getState().items).toEqual([{ id: 2, name: 'ab' }]);
+        expect(useTestStore.getState().loading).toBe(false);
+      }
+    });
+
+    it('should ignore errors from superseded fetchOne calls', async () => {
+      const pending = deferredGets();
+
+      const state = useTestStore.getState();
+      if (state.fetchOne) {
+        const first = state.fetchOne(1);
+        const second = state.fetchOne(2);
+
+        pending[1].resolve({ id: 2, name: 'Second' });
+        await second;
+        pending[0].resolve(Promise.reject(new ApiError('Request cancelled', { kind: 'cancelled' })));
+        await first;
+
+        expect(useTestStore.getState().item).toEqual({ id: 2, name: 'Second' });
+        expect(useTestStore.getState().error).toBeNull();
+      }
+    });
+
+    it('should abort every in-flight request on cancelAll', async () => {
+      const pending = deferredGets();
+      let postSignal: AbortSignal | undefined;
+      mockedApiClient.post.mockImplementation((url, data, options) => {
+        postSignal = options?.signal;
+        return new Promise(() => {});
+      });
+
+      const state = useTestStore.getState();
+      if (state.fetchAll && state.create) {
+        const fetchPromise = state.fetchAll();
+        state.create({ name: 'Pending' });
+        expect(useTestStore.getState().loading).toBe(true);
+
+        state.cancelAll();
+
+        expect(pending[0].signal?.aborted).toBe(true);
+        expect(postSignal?.aborted).toBe(true);
+        expect(useTestStore.getState().loading).toBe(false);
+
+        // A late response is discarded
+        pending[0].resolve({ objects: [{ id: 1, name: 'Late' }] });
+        await fetchPromise;
+        expect(useTestStore.getState().items).toEqual([]);
+      }
+    });
+  });
+
   describe('fetchOne', () => {
     const mockItem: TestItem = { id: 1, name: 'Fetched Item' };
     const itemId = 1;
@@ -197,7 +551,7 @@ describe('createGenericStore', () => {
 
         await fetchPromise;
 
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/${itemId}/`);
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, {}, requestOptions);
         expect(useTestStore.getState().item).toEqual(mockItem);
         expect(useTestStore.getState().loading).toBe(false);
         expect(useTestStore.getState().error).toBeNull();
@@ -215,7 +569,7 @@ describe('createGenericStore', () => {
 
         await fetchPromise;
 
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/${itemId}/`);
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, {}, requestOptions);
         expect(useTestStore.getState().item).toBeNull();
         expect(useTestStore.getState().error).toEqual(mockError);
         expect(useTestStore.getState().loading).toBe(false);
@@ -242,10 +596,10 @@ describe('createGenericStore', () => {
 
         const result = await createPromise;
 
-        expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, newItemPayload);
+        expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, newItemPayload, requestOptions);
         expect(result).toEqual(createdItem);
         // Expect fetchAll to have been called AFTER post is resolved
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {});
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {}, requestOptions);
         expect(useTestStore.getState().items).toEqual([createdItem]);
         expect(useTestStore.getState().loading).toBe(false); // Check final loading state
         expect(useTestStore.getState().error).toBeNull();
@@ -263,7 +617,7 @@ describe('createGenericStore', () => {
 
         const result = await createPromise;
 
-        expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, newItemPayload);
+        expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, newItemPayload, requestOptions);
         expect(result).toBeUndefined();
         expect(mockedApiClient.get).not.toHaveBeenCalled();
         expect(useTestStore.getState().error).toEqual(mockError);
@@ -291,9 +645,9 @@ describe('createGenericStore', () => {
 
         const result = await updatePromise;
 
-        expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, updatePayload);
+        expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, updatePayload, requestOptions);
         expect(result).toEqual(updatedItem);
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {});
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {}, requestOptions);
         expect(useTestStore.getState().items).toEqual([updatedItem]);
         expect(useTestStore.getState().loading).toBe(false);
         expect(useTestStore.getState().error).toBeNull();
@@ -311,7 +665,7 @@ describe('createGenericStore', () => {
 
         const result = await updatePromise;
 
-        expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, updatePayload);
+        expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, updatePayload, requestOptions);
         expect(result).toBeUndefined();
         expect(mockedApiClient.get).not.toHaveBeenCalled();
         expect(useTestStore.getState().error).toEqual(mockError);
@@ -320,6 +674,53 @@ describe('createGenericStore', () => {
     });
   });
 
+  describe('partial updates', () => {
+    const cachedItem: TestItem = { id: 1, name: 'One', value: 'a' };
+
+    const seed = (store: TestStore) => {
+      store.setState({ items: [cachedItem] } as Partial<TestStoreState>);
+    };
+
+    it("should send PATCH with updateMethod: 'patch'", async () => {
+      const store = createGenericStore<TestItem>(endpoint, { updateMethod: 'patch' });
+      mockedApiClient.patch.mockResolvedValue({ ...cachedItem, name: 'Changed' });
+
+      const result = await store.getState().update!(1, { name: 'Changed' });
+
+      expect(mockedApiClient.patch).toHaveBeenCalledWith(`${endpoint}/1/`, { name: 'Changed' }, requestOptions);
+      expect(mockedApiClient.put).not.toHaveBeenCalled();
+      expect(result).toEqual({ ...cachedItem, name: 'Changed' });
+    });
+
+    it('should only send changed fields with diffUpdates', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { updateMethod: 'patch', diffUpdates: true });
+      seed(store);
+
+      await store.getState().update!(1, { name: 'One', value: 'b' });
+
+      expect(mockedApiClient.patch).toHaveBeenCalledWith(`${endpoint}/1/`, { value: 'b' }, requestOptions);
+    });
+
+    it('should skip the request when nothing changed', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { diffUpdates: true });
+      seed(store);
+
+      const result = await store.getState().update!(1, { name: 'One' });
+
+      expect(mockedApiClient.put).not.toHaveBeenCalled();
+      expect(result).toEqual(cachedItem);
+      expect(store.getState().loading).toBe(false);
+    });
+
+    it('should send the full payload when the entity is not cached', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { diffUpdates: true });
+
+      await store.getState().update!(5, { name: 'Five' });
+
+      expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/5/`, { name: 'Five' }, requestOptions);
+    });
+  });
+
   describe('remove', () => {
     const itemId = 1;
     
@@ -335,8 +736,8 @@ describe('createGenericStore', () => {
 
         await removePromise;
 
-        expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/${itemId}/`);
-        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {});
+        expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, {}, requestOptions);
+        expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, {}, requestOptions);
         expect(useTestStore.getState().loading).toBe(false);
         expect(useTestStore.getState().error).toBeNull();
       }
@@ -353,7 +754,7 @@ describe('createGenericStore', () => {
 
         await removePromise;
 
-        expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/${itemId}/`);
+        expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/${itemId}/`, {}, requestOptions);
         expect(mockedApiClient.get).not.toHaveBeenCalled();
         expect(useTestStore.getState().error).toEqual(mockError);
         expect(useTestStore.getState().loading).toBe(false);
@@ -361,6 +762,1244 @@ describe('createGenericStore', () => {
     });
   });
 
+  describe('refetchStrategy', () => {
+    const existing: TestItem[] = [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }];
+
+    const seed = (store: TestStore) => {
+      store.setState({
+        items: existing,
+        item: existing[0],
+        meta: { currentPage: 1, totalPages: 1, totalCount: 2 },
+      } as Partial<TestStoreState>);
+    };
+
+    it('should replay the last fetchAll params by default', async () => {
+      const { fetchAll, create } = useTestStore.getState();
+      await fetchAll!({ page: 3, search: 'foo' });
+      expect(useTestStore.getState().lastParams).toEqual({ page: 3, search: 'foo' });
+      mockedApiClient.get.mockClear();
+
+      await create!({ name: 'New' });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, { page: 3, search: 'foo' }, requestOptions);
+    });
+
+    it("should not refetch with 'none'", async () => {
+      const store = createGenericStore<TestItem>(endpoint, { refetchStrategy: 'none' });
+      seed(store);
+
+      await store.getState().create!({ name: 'New' });
+      await store.getState().update!(1, { name: 'Changed' });
+      await store.getState().remove!(2);
+
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+      expect(store.getState().items).toEqual(existing);
+    });
+
+    describe("with 'merge'", () => {
+      let store: TestStore;
+
+      beforeEach(() => {
+        store = createGenericStore<TestItem>(endpoint, { refetchStrategy: 'merge' });
+        seed(store);
+      });
+
+      it('should append created items and bump totalCount', async () => {
+        mockedApiClient.post.mockResolvedValue({ id: 3, name: 'Three' });
+
+        await store.getState().create!({ name: 'Three' });
+
+        expect(mockedApiClient.get).not.toHaveBeenCalled();
+        expect(store.getState().items).toEqual([...existing, { id: 3, name: 'Three' }]);
+        expect(store.getState().meta.totalCount).toBe(3);
+      });
+
+      it('should replace updated items in items and item', async () => {
+        mockedApiClient.put.mockResolvedValue({ id: 1, name: 'Changed', value: 'server' });
+
+        await store.getState().update!(1, { name: 'Changed' });
+
+        expect(mockedApiClient.get).not.toHaveBeenCalled();
+        expect(store.getState().items[0]).toEqual({ id: 1, name: 'Changed', value: 'server' });
+        expect(store.getState().item).toEqual({ id: 1, name: 'Changed', value: 'server' });
+        expect(store.getState().meta.totalCount).toBe(2);
+      });
+
+      it('should merge the payload when the update response has no body', async () => {
+        mockedApiClient.put.mockResolvedValue(undefined);
+
+        await store.getState().update!(2, { name: 'Changed' });
+
+        expect(store.getState().items[1]).toEqual({ id: 2, name: 'Changed' });
+      });
+
+      it('should drop removed items, clear item and decrement totalCount', async () => {
+        await store.getState().remove!(1);
+
+        expect(mockedApiClient.get).not.toHaveBeenCalled();
+        expect(store.getState().items).toEqual([existing[1]]);
+        expect(store.getState().item).toBeNull();
+        expect(store.getState().meta.totalCount).toBe(1);
+      });
+
+      it('should not count optimistic changes twice', async () => {
+        mockedApiClient.post.mockResolvedValue({ id: 3, name: 'Three' });
+
+        await store.getState().create!({ name: 'Three' }, { optimistic: true });
+        await store.getState().remove!(1, { optimistic: true });
+
+        expect(store.getState().items).toEqual([existing[1], { id: 3, name: 'Three' }]);
+        expect(store.getState().meta.totalCount).toBe(2);
+      });
+    });
+  });
+
+  describe('load more', () => {
+    const pages: Record<number, TestItem[]> = {
+      1: [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }],
+      2: [{ id: 2, name: 'Two' }, { id: 3, name: 'Three' }], // Overlaps, e.g. after an insert
+      3: [{ id: 4, name: 'Four' }],
+    };
+
+    beforeEach(() => {
+      mockedApiClient.get.mockImplementation(async (_url, params) => ({
+        objects: pages[params?.page || 1],
+        current_page: params?.page || 1,
+        num_pages: 3,
+        total_count: 5,
+      }));
+    });
+
+    it('should append the next page, skipping items already loaded', async () => {
+      const { fetchAll, fetchNextPage } = useTestStore.getState();
+      await fetchAll!({ search: 'o' });
+      expect(useTestStore.getState().hasNextPage).toBe(true);
+
+      await fetchNextPage!();
+
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(`${endpoint}/`, { search: 'o', page: 2 }, requestOptions);
+      expect(useTestStore.getState().items.map(item => item.id)).toEqual([1, 2, 3]);
+      expect(useTestStore.getState().meta.currentPage).toBe(2);
+      expect(useTestStore.getState().lastParams).toEqual({ search: 'o' });
+
+      await fetchNextPage!();
+      expect(useTestStore.getState().items.map(item => item.id)).toEqual([1, 2, 3, 4]);
+      expect(useTestStore.getState().hasNextPage).toBe(false);
+
+      await fetchNextPage!();
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should prepend the previous page', async () => {
+      const { fetchAll, fetchPreviousPage } = useTestStore.getState();
+      await fetchAll!({ page: 3 });
+      expect(useTestStore.getState().hasPreviousPage).toBe(true);
+
+      await fetchPreviousPage!();
+
+      expect(useTestStore.getState().items.map(item => item.id)).toEqual([2, 3, 4]);
+      expect(useTestStore.getState().meta.currentPage).toBe(3);
+    });
+
+    it('should follow cursors', async () => {
+      const store = createGenericStore<TestItem>(endpoint, {
+        responseAdapter: createCursorAdapter(),
+        cursorParam: 'after',
+      });
+      mockedApiClient.get
+        .mockResolvedValueOnce({ results: [{ id: 1, name: 'One' }], next_cursor: 'abc' })
+        .mockResolvedValueOnce({ results: [{ id: 2, name: 'Two' }], next_cursor: null });
+
+      await store.getState().fetchAll!();
+      await store.getState().fetchNextPage!();
+
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(`${endpoint}/`, { after: 'abc' }, requestOptions);
+      expect(store.getState().items.map(item => item.id)).toEqual([1, 2]);
+      expect(store.getState().hasNextPage).toBe(false);
+    });
+
+    it('should ignore calls while a page is loading and track loadingMore', async () => {
+      const { fetchAll, fetchNextPage } = useTestStore.getState();
+      await fetchAll!();
+
+      const loading = fetchNextPage!();
+      expect(useTestStore.getState().loadingMore).toBe(true);
+      expect(useTestStore.getState().loading).toBe(true);
+      await fetchNextPage!();
+      await loading;
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2);
+      expect(useTestStore.getState().loadingMore).toBe(false);
+      expect(useTestStore.getState().loading).toBe(false);
+    });
+
+    it('should reset when the list params change', async () => {
+      const { fetchAll, fetchNextPage } = useTestStore.getState();
+      await fetchAll!();
+
+      const stalePage = fetchNextPage!();
+      await fetchAll!({ search: 'new' });
+      await stalePage;
+
+      expect(useTestStore.getState().items.map(item => item.id)).toEqual([1, 2]);
+      expect(useTestStore.getState().loadingMore).toBe(false);
+      expect(useTestStore.getState().meta.currentPage).toBe(1);
+    });
+  });
+
+  describe('entity cache', () => {
+    const ada: TestItem = { id: 1, name: 'Ada' };
+    const grace: TestItem = { id: 2, name: 'Grace' };
+
+    it('should fall back to items and item without a cache', () => {
+      useTestStore.setState({ items: [ada], item: grace } as Partial<TestStoreState>);
+
+      expect(useTestStore.getState().selectById(1)).toEqual(ada);
+      expect(useTestStore.getState().selectById(2)).toEqual(grace);
+      expect(useTestStore.getState().selectAll()).toEqual([ada]);
+    });
+
+    it('should store fetched entities and list ids in the cache', async () => {
+      const entityCache = createEntityCache<TestItem>();
+      const store = createGenericStore<TestItem>(endpoint, { entityCache });
+      mockedApiClient.get.mockResolvedValue({ objects: [grace, ada] });
+
+      await store.getState().fetchAll!({ page: 1 });
+
+      expect(entityCache.getState().queries[getQueryKey(endpoint, { page: 1 })]).toEqual([2, 1]);
+      expect(store.getState().selectById(1)).toEqual(ada);
+      expect(store.getState().selectAll()).toHaveLength(2);
+    });
+
+    it('should update every store showing an updated entity', async () => {
+      const entityCache = createEntityCache<TestItem>();
+      const listStore = createGenericStore<TestItem>(endpoint, { entityCache });
+      const detailStore = createGenericStore<TestItem>(endpoint, { entityCache, refetchStrategy: 'none' });
+      mockedApiClient.get.mockResolvedValueOnce({ objects: [ada, grace] }).mockResolvedValueOnce(ada);
+      await listStore.getState().fetchAll!();
+      await detailStore.getState().fetchOne!(1);
+
+      mockedApiClient.put.mockResolvedValue({ id: 1, name: 'Ada Lovelace' });
+      await detailStore.getState().update!(1, { name: 'Ada Lovelace' });
+
+      expect(detailStore.getState().item).toEqual({ id: 1, name: 'Ada Lovelace' });
+      expect(listStore.getState().items).toEqual([{ id: 1, name: 'Ada Lovelace' }, grace]);
+    });
+
+    it('should drop removed entities from every store', async () => {
+      const entityCache = createEntityCache<TestItem>();
+      const listStore = createGenericStore<TestItem>(endpoint, { entityCache });
+      const otherStore = createGenericStore<TestItem>(endpoint, { entityCache, refetchStrategy: 'none' });
+      mockedApiClient.get.mockResolvedValueOnce({ objects: [ada, grace], total_count: 2 });
+      await listStore.getState().fetchAll!();
+
+      await otherStore.getState().remove!(1);
+
+      expect(listStore.getState().items).toEqual([grace]);
+      expect(listStore.getState().meta.totalCount).toBe(1);
+      expect(entityCache.selectById(1)).toBeUndefined();
+    });
+
+    it('should keep optimistic changes when unrelated entities change', async () => {
+      const entityCache = createEntityCache<TestItem>();
+      const store = createGenericStore<TestItem>(endpoint, { entityCache, refetchStrategy: 'none' });
+      mockedApiClient.get.mockResolvedValueOnce({ objects: [ada, grace] });
+      await store.getState().fetchAll!();
+      mockedApiClient.put.mockReturnValue(new Promise(() => {})); // Never settles
+
+      store.getState().update!(1, { name: 'Pending' }, { optimistic: true });
+      entityCache.upsert([{ id: 2, name: 'Grace Hopper' }]);
+
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Pending' }, { id: 2, name: 'Grace Hopper' }]);
+    });
+  });
+
+  describe('filters, sort and search', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fetch once with the combined params after the debounce', async () => {
+      const { setFilters, setSearch, setSort } = useTestStore.getState();
+
+      setFilters!({ status: 'active', team: 3 });
+      setSearch!('ada');
+      setSort!({ field: 'created_at', direction: 'desc' });
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(300);
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+      expect(mockedApiClient.get).toHaveBeenCalledWith(
+        `${endpoint}/`,
+        { status: 'active', team: 3, search: 'ada', ordering: '-created_at' },
+        requestOptions,
+      );
+      expect(useTestStore.getState().filters).toEqual({ status: 'active', team: 3 });
+    });
+
+    it('should merge filters and remove undefined ones', async () => {
+      const { setFilters } = useTestStore.getState();
+      setFilters!({ status: 'active', team: 3 });
+      setFilters!({ team: undefined, role: 'admin' });
+
+      expect(useTestStore.getState().filters).toEqual({ status: 'active', role: 'admin' });
+    });
+
+    it('should fetch a page of the current query right away', async () => {
+      const { setSearch, setPage } = useTestStore.getState();
+      setSearch!('ada');
+
+      await setPage!(2);
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+      expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/`, { search: 'ada', page: 2 }, requestOptions);
+      await jest.advanceTimersByTimeAsync(300);
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1); // The pending debounced fetch was replaced
+    });
+
+    it('should use the configured param names and restore initial filters on reset', async () => {
+      const store = createGenericStore<TestItem>(endpoint, {
+        query: {
+          searchParam: 'q',
+          sortParam: 'sort',
+          formatSort: sort => `${sort.field}:${sort.direction}`,
+          debounce: 50,
+          initialFilters: { archived: false },
+        },
+      });
+      store.getState().setSearch!('ada');
+      store.getState().setSort!({ field: 'name', direction: 'asc' });
+      await jest.advanceTimersByTimeAsync(50);
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(
+        `${endpoint}/`,
+        { archived: false, q: 'ada', sort: 'name:asc' },
+        requestOptions,
+      );
+
+      store.getState().resetQuery!();
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(store.getState()).toMatchObject({ filters: { archived: false }, sort: null, search: '' });
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(`${endpoint}/`, { archived: false }, requestOptions);
+    });
+
+    it('should keep the path params of the last fetchAll', async () => {
+      const store = createGenericStore<TestItem>('/projects/:projectId/tasks');
+      await store.getState().fetchAll!({ projectId: 1 });
+
+      store.getState().setFilters!({ done: true });
+      await jest.advanceTimersByTimeAsync(300);
+      await store.getState().setPage!(2);
+
+      expect(store.getState().error).toBeNull();
+      expect(mockedApiClient.get).toHaveBeenNthCalledWith(2, '/projects/1/tasks/', { done: true }, requestOptions);
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith('/projects/1/tasks/', { done: true, page: 2 }, requestOptions);
+    });
+
+    it('should drop a pending query fetch on cancelAll', async () => {
+      const { setSearch, cancelAll } = useTestStore.getState();
+      setSearch!('ada');
+
+      cancelAll();
+      await jest.advanceTimersByTimeAsync(300);
+
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('query caching', () => {
+    const page1: TestItem[] = [{ id: 1, name: 'One' }];
+    const page2: TestItem[] = [{ id: 2, name: 'Two' }];
+
+    beforeEach(() => {
+      mockedApiClient.get.mockImplementation(async (_url, params) => ({
+        objects: params?.page === 2 ? page2 : page1,
+      }));
+    });
+
+    it('should serve fresh results from the cache without a request', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { staleTime: 60000 });
+      await store.getState().fetchAll!({ page: 1 });
+      await store.getState().fetchAll!({ page: 2 });
+
+      await store.getState().fetchAll!({ page: 1 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2);
+      expect(store.getState().items).toEqual(page1);
+      expect(store.getState().lastParams).toEqual({ page: 1 });
+      expect(store.getState().loading).toBe(false);
+    });
+
+    it('should show stale results while revalidating', async () => {
+      const store = createGenericStore<TestItem>(endpoint);
+      await store.getState().fetchAll!({ page: 1 });
+      await store.getState().fetchAll!({ page: 2 });
+
+      const revalidating = store.getState().fetchAll!({ page: 1 });
+      expect(store.getState().items).toEqual(page1);
+      expect(store.getState().loading).toBe(true);
+      await revalidating;
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache with cacheTime: 0', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { cacheTime: 0, staleTime: 60000 });
+      await store.getState().fetchAll!({ page: 1 });
+      await store.getState().fetchAll!({ page: 1 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache fetchOne results per id', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { staleTime: 60000 });
+      mockedApiClient.get.mockResolvedValue(page1[0]);
+      await store.getState().fetchOne!(1);
+      store.setState({ item: null } as Partial<TestStoreState>);
+
+      await store.getState().fetchOne!(1);
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+      expect(store.getState().item).toEqual(page1[0]);
+    });
+
+    it('should request invalidated results again', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { staleTime: 60000 });
+      await store.getState().fetchAll!({ page: 1 });
+      await store.getState().fetchAll!({ page: 2 });
+
+      store.getState().invalidate({ page: 1 });
+      await store.getState().fetchAll!({ page: 2 });
+      await store.getState().fetchAll!({ page: 1 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(3);
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(`${endpoint}/`, { page: 1 }, requestOptions);
+    });
+
+    it('should refetch the current list bypassing the cache', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { staleTime: 60000 });
+      await store.getState().fetchAll!({ page: 2 });
+
+      await store.getState().refetch!();
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2);
+      expect(mockedApiClient.get).toHaveBeenLastCalledWith(`${endpoint}/`, { page: 2 }, requestOptions);
+    });
+
+    it('should treat cached results as stale after a mutation', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { staleTime: 60000 });
+      await store.getState().fetchAll!({ page: 1 });
+
+      await store.getState().create!({ name: 'New' });
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not show the cached pre-mutation list while refetching after a mutation', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { optimistic: true });
+      let serverItems: TestItem[] = [{ id: 1, name: 'One' }];
+      mockedApiClient.get.mockImplementation(async () => ({ objects: serverItems }));
+      mockedApiClient.post.mockImplementation(async (_url, payload) => {
+        serverItems = [...serverItems, { id: 2, ...payload }];
+        return { id: 2, ...payload };
+      });
+      mockedApiClient.delete.mockImplementation(async () => {
+        serverItems = serverItems.filter(existing => existing.id !== 2);
+      });
+      await store.getState().fetchAll!();
+      const counts: number[] = [];
+      store.subscribe((state, previous) => {
+        if (state.items !== previous.items) counts.push(state.items.length);
+      });
+
+      await store.getState().create!({ name: 'Two' });
+      await store.getState().remove!(2);
+
+      // Item counts as they changed; serving the stale cache would flip back to the old count while refetching
+      expect(counts.filter((count, index) => count !== counts[index - 1])).toEqual([2, 1]);
+      expect(store.getState().items).toEqual([{ id: 1, name: 'One' }]);
+    });
+  });
+
+  describe('nested endpoints', () => {
+    const template = '/projects/:projectId/tasks';
+
+    it('should fill path params from the store options, skipping them in the query', async () => {
+      const store = createGenericStore<TestItem>(template, { pathParams: { projectId: 5 } });
+
+      await store.getState().fetchAll!({ page: 2 });
+      await store.getState().fetchOne!(9);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/projects/5/tasks/', { page: 2 }, requestOptions);
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/projects/5/tasks/9/', {}, requestOptions);
+    });
+
+    it('should accept path params per call', async () => {
+      const store = createGenericStore<TestItem>(template, { refetchStrategy: 'none' });
+
+      await store.getState().fetchAll!({ projectId: 1, page: 2 });
+      await store.getState().create!({ name: 'Task' }, { pathParams: { projectId: 2 } });
+      await store.getState().update!(3, { name: 'Task' }, { pathParams: { projectId: 2 } });
+      await store.getState().remove!(3, { pathParams: { projectId: 2 } });
+      await store.getState().fetchOne!(3, { projectId: 4 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/projects/1/tasks/', { page: 2 }, requestOptions);
+      expect(store.getState().lastParams).toEqual({ projectId: 1, page: 2 });
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/projects/2/tasks/', { name: 'Task' }, requestOptions);
+      expect(mockedApiClient.put).toHaveBeenCalledWith('/projects/2/tasks/3/', { name: 'Task' }, requestOptions);
+      expect(mockedApiClient.delete).toHaveBeenCalledWith('/projects/2/tasks/3/', {}, requestOptions);
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/projects/4/tasks/3/', {}, requestOptions);
+    });
+
+    it('should report missing path params as a setup error', async () => {
+      const store = createGenericStore<TestItem>(template);
+
+      await store.getState().fetchAll!();
+
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+      expect(store.getState().error).toMatchObject({ kind: 'setup' });
+      expect(store.getState().loading).toBe(false);
+    });
+
+    it('should return the same scoped store for the same params', async () => {
+      const useTaskStore = createGenericStore<TestItem>(template);
+      const projectOne = useTaskStore.scope({ projectId: 1 });
+
+      expect(useTaskStore.scope({ projectId: 1 })).toBe(projectOne);
+      expect(useTaskStore.scope({ projectId: 2 })).not.toBe(projectOne);
+
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'Task' }] });
+      await projectOne.getState().fetchAll!();
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/projects/1/tasks/', {}, requestOptions);
+      expect(useTaskStore.scope({ projectId: 2 }).getState().items).toEqual([]);
+    });
+
+    it('should build URLs without trailing slashes when disabled', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { trailingSlash: false });
+
+      await store.getState().fetchAll!();
+      await store.getState().fetchOne!(1);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith(endpoint, {}, requestOptions);
+      expect(mockedApiClient.get).toHaveBeenCalledWith(`${endpoint}/1`, {}, requestOptions);
+    });
+  });
+
+  describe('bulk actions', () => {
+    it('should fan out creates and refresh the list once', async () => {
+      mockedApiClient.post.mockImplementation(async (_url, payload) => ({ id: payload.name.length, ...payload }));
+
+      const store = createGenericStore<TestItem>(endpoint);
+
+      const result = await store.getState().createMany!([{ name: 'A' }, { name: 'BB' }]);
+
+      expect(mockedApiClient.post).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({ succeeded: [{ id: 1, name: 'A' }, { id: 2, name: 'BB' }], failed: [] });
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+      expect(store.getState().status.createMany.loading).toBe(false);
+    });
+
+    it('should respect the concurrency limit', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { bulk: { concurrency: 2 } });
+      let active = 0;
+      let maxActive = 0;
+      mockedApiClient.delete.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await Promise.resolve();
+        active--;
+      });
+
+      const result = await store.getState().removeMany!([1, 2, 3, 4, 5]);
+
+      expect(mockedApiClient.delete).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(2);
+      expect(result.succeeded).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should report per-item failures with their ids', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { refetchStrategy: 'merge' });
+      store.setState({ items: [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }] } as Partial<TestStoreState>);
+      const failure = new ApiError('Not allowed', { kind: 'http', status: 403 });
+      mockedApiClient.put.mockImplementation(async (url, changes) => {
+        if (url === `${endpoint}/2/`) throw failure;
+        return { id: 1, ...changes };
+      });
+
+      const result = await store.getState().updateMany!([{ id: 1, name: 'Uno' }, { id: 2, name: 'Dos' }]);
+
+      expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/1/`, { name: 'Uno' }, requestOptions);
+      expect(result).toEqual({ succeeded: [{ id: 1, name: 'Uno' }], failed: [{ index: 1, error: failure }] });
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Uno' }, { id: 2, name: 'Two' }]);
+      expect(store.getState().itemErrors).toEqual({ 2: failure });
+      expect(store.getState().pendingIds).toEqual([]);
+      expect(store.getState().status.updateMany.error).toBe(failure);
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should use the bulk endpoint when configured', async () => {
+      const store = createGenericStore<TestItem>('/projects/:projectId/tasks', {
+        pathParams: { projectId: 1 },
+        bulk: { endpoint: '/projects/:projectId/tasks/bulk' },
+        updateMethod: 'patch',
+        refetchStrategy: 'merge',
+      });
+      store.setState({ items: [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }] } as Partial<TestStoreState>);
+      mockedApiClient.post.mockResolvedValue([{ id: 3, name: 'Three' }]);
+      mockedApiClient.patch.mockResolvedValue([{ id: 1, name: 'Uno' }]);
+      mockedApiClient.request.mockResolvedValue(undefined);
+
+      await store.getState().createMany!([{ name: 'Three' }]);
+      await store.getState().updateMany!([{ id: 1, name: 'Uno' }]);
+      const removed = await store.getState().removeMany!([2]);
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/projects/1/tasks/bulk/', [{ name: 'Three' }], requestOptions);
+      expect(mockedApiClient.patch).toHaveBeenCalledWith('/projects/1/tasks/bulk/', [{ id: 1, name: 'Uno' }], requestOptions);
+      expect(mockedApiClient.request).toHaveBeenCalledWith({
+        method: 'delete',
+        url: '/projects/1/tasks/bulk/',
+        data: { ids: [2] },
+        options: requestOptions,
+      });
+      expect(removed).toEqual({ succeeded: [2], failed: [] });
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Uno' }, { id: 3, name: 'Three' }]);
+    });
+
+    it('should count every input as succeeded when the bulk endpoint returns no entities', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { bulk: { endpoint: '/test-items/bulk' } });
+      mockedApiClient.post.mockResolvedValue(undefined); // 204
+      mockedApiClient.put.mockResolvedValue({ updated: 2 });
+
+      const created = await store.getState().createMany!([{ name: 'A' }, { name: 'B' }]);
+      const updated = await store.getState().updateMany!([{ id: 1, name: 'Uno' }, { id: 2, name: 'Dos' }]);
+
+      expect(created).toEqual({ succeeded: [{ name: 'A' }, { name: 'B' }], failed: [] });
+      expect(updated).toEqual({ succeeded: [{ id: 1, name: 'Uno' }, { id: 2, name: 'Dos' }], failed: [] });
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(2); // The list is refreshed after each batch
+      expect(store.getState().status.createMany.error).toBeNull();
+    });
+
+    it('should fail every item when the bulk request fails', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { bulk: { endpoint: '/test-items/bulk' } });
+      const failure = new Error('Bulk failed');
+      mockedApiClient.post.mockRejectedValue(failure);
+
+      const result = await store.getState().createMany!([{ name: 'A' }, { name: 'B' }]);
+
+      expect(result.failed).toEqual([{ index: 0, error: failure }, { index: 1, error: failure }]);
+      expect(store.getState().error).toBe(failure);
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response validation', () => {
+    const itemSchema = {
+      safeParse: (data: any) => (typeof data?.id === 'number' && typeof data?.name === 'string'
+        ? { success: true as const, data: data as TestItem }
+        : { success: false as const, error: new Error('Invalid item') }),
+    };
+
+    it('should infer the entity type from the schema', async () => {
+      const store = createGenericStore(endpoint, { schema: itemSchema });
+      mockedApiClient.get.mockResolvedValue({ id: 1, name: 'One' });
+
+      await store.getState().fetchOne!(1);
+      const item: TestItem | null = store.getState().item;
+
+      expect(item).toEqual({ id: 1, name: 'One' });
+    });
+
+    it('should fail fetchAll with a validation error when an item is malformed', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { schema: itemSchema });
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'One' }, { id: 2, name: null }] });
+
+      await store.getState().fetchAll!();
+
+      const { error, items, status } = store.getState();
+      expect(items).toEqual([]);
+      expect(status.fetchAll.error).toBe(error);
+      expect(error).toMatchObject({ kind: 'validation', url: `${endpoint}/` });
+      expect(error?.message).toBe(`Response validation failed for GET ${endpoint}/ at items[1]`);
+    });
+
+    it('should validate the list envelope before the adapter runs', async () => {
+      const listSchema = {
+        parse: (data: any) => {
+          if (!Array.isArray(data?.objects)) throw new Error('Expected objects');
+          return data;
+        },
+      };
+      const store = createGenericStore<TestItem>(endpoint, { listSchema });
+      mockedApiClient.get.mockResolvedValue({ results: [] });
+
+      await store.getState().fetchAll!();
+
+      expect(store.getState().error).toMatchObject({ kind: 'validation' });
+    });
+
+    it('should roll back an optimistic update whose response is malformed', async () => {
+      const store = createGenericStore<TestItem>(endpoint, { schema: itemSchema, optimistic: true });
+      store.setState({ items: [{ id: 1, name: 'One' }] } as Partial<TestStoreState>);
+      mockedApiClient.put.mockResolvedValue({ id: 1 });
+
+      const result = await store.getState().update!(1, { name: 'Uno' });
+
+      expect(result).toBeUndefined();
+      expect(store.getState().items).toEqual([{ id: 1, name: 'One' }]);
+      expect(store.getState().status.update.error).toMatchObject({ kind: 'validation', method: 'put' });
+    });
+
+    it('should keep unvalidated data in warn mode', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const store = createGenericStore<TestItem>(endpoint, { schema: itemSchema, validation: 'warn' });
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1 }] });
+
+      await store.getState().fetchAll!();
+
+      expect(store.getState().items).toEqual([{ id: 1 }]);
+      expect(store.getState().error).toBeNull();
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('persistence', () => {
+    const readPersisted = (storage: ReturnType<typeof createMemoryStorage>, key: string) =>
+      JSON.parse(storage.getItem(key) as string);
+
+    it('should persist only the chosen fields', async () => {
+      const storage = createMemoryStorage();
+      const store = createGenericStore<TestItem>(endpoint, { persist: { key: 'items', storage, fields: ['items', 'lastParams'] } });
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'One' }], current_page: 1, num_pages: 1, total_count: 1 });
+
+      await store.getState().fetchAll!({ page: 1 });
+
+      expect(readPersisted(storage, 'items')).toEqual({
+        state: { items: [{ id: 1, name: 'One' }], lastParams: { page: 1 } },
+        version: 0,
+      });
+    });
+
+    it('should rehydrate on creation and revalidate the rehydrated list', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('items', JSON.stringify({
+        state: {
+          items: [{ id: 1, name: 'Cached' }],
+          meta: { currentPage: 1, totalPages: 2, totalCount: 2 },
+          lastParams: { search: 'c' },
+          loading: true, // Never restored, even if present in storage
+          error: { message: 'stale error' },
+        },
+        version: 0,
+      }));
+
+      const store = createGenericStore<TestItem>(endpoint, { persist: { key: 'items', storage }, staleTime: 60000 });
+
+      expect(store.persist?.hasHydrated()).toBe(true);
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Cached' }]);
+      expect(store.getState().hasNextPage).toBe(true);
+      expect(store.getState().loading).toBe(false);
+      expect(store.getState().error).toBeNull();
+
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'Fresh' }] });
+      const pending = store.getState().fetchAll!({ search: 'c' });
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Cached' }]);
+      await pending;
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Fresh' }]);
+    });
+
+    it('should migrate state persisted by an older version', () => {
+      const storage = createMemoryStorage();
+      storage.setItem('items', JSON.stringify({ state: { rows: [{ id: 1, name: 'Old' }] }, version: 1 }));
+
+      const store = createGenericStore<TestItem>(endpoint, {
+        persist: {
+          key: 'items',
+          storage,
+          version: 2,
+          migrations: { 2: (state: any) => ({ items: state.rows }) },
+        },
+      });
+
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Old' }]);
+      expect(readPersisted(storage, 'items').version).toBe(2);
+    });
+
+    it('should rehydrate from async storage', async () => {
+      const entries: Record<string, string> = {
+        items: JSON.stringify({ state: { items: [{ id: 2, name: 'Async' }] }, version: 0 }),
+      };
+      const storage = {
+        getItem: async (name: string) => entries[name] ?? null,
+        setItem: async (name: string, value: string) => { entries[name] = value; },
+        removeItem: async (name: string) => { delete entries[name]; },
+      };
+
+      const store = createGenericStore<TestItem>(endpoint, { persist: { key: 'items', storage } });
+      expect(store.persist?.hasHydrated()).toBe(false);
+      await new Promise<void>(resolve => store.persist?.onFinishHydration(resolve));
+
+      expect(store.getState().items).toEqual([{ id: 2, name: 'Async' }]);
+    });
+
+    it('should not restore async storage over data fetched before it was read', async () => {
+      const entries: Record<string, string> = {
+        items: JSON.stringify({ state: { items: [{ id: 1, name: 'Old' }, { id: 9, name: 'Deleted' }], search: 'old' }, version: 0 }),
+      };
+      const storage = {
+        getItem: (name: string) => {
+          const value = entries[name] ?? null; // Read now, answered later
+          return new Promise<string | null>(resolve => setTimeout(() => resolve(value), 20));
+        },
+        setItem: async (name: string, value: string) => { entries[name] = value; },
+        removeItem: async (name: string) => { delete entries[name]; },
+      };
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'Fresh' }] });
+
+      const store = createGenericStore<TestItem>(endpoint, { persist: { key: 'items', storage } });
+      await store.getState().fetchAll!();
+      await new Promise<void>(resolve => store.persist?.onFinishHydration(resolve));
+
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Fresh' }]);
+      expect(store.getState().search).toBe('');
+      expect(JSON.parse(entries.items).state.items).toEqual([{ id: 1, name: 'Fresh' }]);
+      await store.getState().fetchAll!(); // Revalidates the fresh list, not a cached old one
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Fresh' }]);
+    });
+
+    it('should persist scoped stores under separate keys', async () => {
+      const storage = createMemoryStorage();
+      const store = createGenericStore<TestItem>('/projects/:projectId/tasks', { persist: { key: 'tasks', storage } });
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'Task' }] });
+
+      await store.scope({ projectId: 3 }).getState().fetchAll!();
+
+      expect(readPersisted(storage, getQueryKey('tasks', { projectId: 3 })).state.items).toEqual([{ id: 1, name: 'Task' }]);
+      expect(storage.getItem('tasks')).toBeNull();
+    });
+  });
+
+  describe('offline mode', () => {
+    const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const createOfflineStore = (overrides = {}) => {
+      const connectivity = createManualConnectivity(false);
+      const storage = createMemoryStorage();
+      const store = createGenericStore<TestItem>(endpoint, {
+        refetchStrategy: 'none',
+        offline: { key: 'queue', storage, connectivity, ...overrides },
+      });
+      return { store, connectivity, storage };
+    };
+
+    it('should apply mutations locally and queue them while offline', async () => {
+      const { store, storage } = createOfflineStore();
+      store.setState({ items: [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }] } as Partial<TestStoreState>);
+
+      const created = await store.getState().create!({ name: 'New' });
+      await store.getState().update!(1, { name: 'Uno' });
+      await store.getState().remove!(2);
+      await flushPromises();
+
+      expect(mockedApiClient.post).not.toHaveBeenCalled();
+      expect(mockedApiClient.put).not.toHaveBeenCalled();
+      expect(mockedApiClient.delete).not.toHaveBeenCalled();
+      expect(isTempId(created!.id)).toBe(true);
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Uno' }, { id: created!.id, name: 'New' }]);
+      expect(store.getState().pendingMutations.map(mutation => [mutation.action, mutation.entityId]))
+        .toEqual([['create', created!.id], ['update', 1], ['remove', 2]]);
+      expect(store.getState().pendingIds).toEqual([created!.id, 1, 2]);
+      expect(JSON.parse(storage.getItem('queue') as string)).toEqual(store.getState().pendingMutations);
+    });
+
+    it('should replay the queue in order on reconnect, remapping temporary ids', async () => {
+      const onReplayed = jest.fn();
+      const { store, connectivity } = createOfflineStore({ onReplayed });
+      mockedApiClient.post.mockResolvedValue({ id: 10, name: 'New' });
+      mockedApiClient.put.mockResolvedValue({ id: 10, name: 'Renamed' });
+
+      const created = await store.getState().create!({ name: 'New' });
+      await store.getState().update!(created!.id, { name: 'Renamed' });
+      connectivity.setOnline(true);
+      await store.getState().replayMutations!();
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith(`${endpoint}/`, { name: 'New' }, requestOptions);
+      expect(mockedApiClient.put).toHaveBeenCalledWith(`${endpoint}/10/`, { name: 'Renamed' }, requestOptions);
+      expect(store.getState().items).toEqual([{ id: 10, name: 'Renamed' }]);
+      expect(store.getState().pendingMutations).toEqual([]);
+      expect(store.getState().pendingIds).toEqual([]);
+      expect(onReplayed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop creates that were removed before being sent', async () => {
+      const { store } = createOfflineStore();
+
+      const created = await store.getState().create!({ name: 'Draft' });
+      await store.getState().update!(created!.id, { name: 'Draft 2' });
+      await store.getState().remove!(created!.id);
+
+      expect(store.getState().items).toEqual([]);
+      expect(store.getState().pendingMutations).toEqual([]);
+      expect(store.getState().pendingIds).toEqual([]);
+    });
+
+    it('should report conflicts and failures and keep replaying', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const onConflict = jest.fn();
+      const onFailure = jest.fn();
+      const { store, connectivity } = createOfflineStore({ onConflict, onFailure });
+      const conflict = new ApiError('Modified meanwhile', { kind: 'http', status: 409 });
+      const forbidden = new ApiError('Forbidden', { kind: 'http', status: 403 });
+      mockedApiClient.put.mockRejectedValueOnce(conflict).mockRejectedValueOnce(forbidden);
+      mockedApiClient.delete.mockResolvedValue(undefined);
+
+      await store.getState().update!(1, { name: 'A' });
+      await store.getState().update!(2, { name: 'B' });
+      await store.getState().remove!(3);
+      connectivity.setOnline(true);
+      await store.getState().replayMutations!();
+
+      expect(onConflict).toHaveBeenCalledWith(expect.objectContaining({ entityId: 1 }), conflict);
+      expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ entityId: 2 }), forbidden);
+      expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/3/`, {}, requestOptions);
+      expect(store.getState().itemErrors).toEqual({ 1: conflict, 2: forbidden });
+      expect(store.getState().pendingMutations).toEqual([]);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should undo the local changes of rejected mutations', async () => {
+      const { store, connectivity } = createOfflineStore({ onFailure: jest.fn() });
+      const invalid = new ApiError('Invalid', { kind: 'http', status: 400 });
+      mockedApiClient.post.mockRejectedValue(invalid);
+      mockedApiClient.put.mockRejectedValue(invalid);
+      mockedApiClient.delete.mockRejectedValue(invalid);
+      const original = [{ id: 1, name: 'One' }, { id: 2, name: 'Two' }];
+      store.setState({ items: original, meta: { currentPage: 1, totalPages: 1, totalCount: 2 } } as Partial<TestStoreState>);
+
+      await store.getState().create!({ name: 'New' });
+      await store.getState().update!(1, { name: 'Uno' });
+      await store.getState().remove!(2);
+      connectivity.setOnline(true);
+      await store.getState().replayMutations!();
+
+      expect(store.getState().items).toEqual(original);
+      expect(store.getState().meta.totalCount).toBe(2);
+      expect(store.getState().error).toBe(invalid);
+      expect(store.getState().status.create.error).toBe(invalid);
+      expect(store.getState().pendingIds).toEqual([]);
+    });
+
+    it('should drop the temporary entity of a rejected create restored after a reload', async () => {
+      const storage = createMemoryStorage();
+      const before = createGenericStore<TestItem>(endpoint, {
+        offline: { key: 'queue', storage, connectivity: createManualConnectivity(false) },
+      });
+      const created = await before.getState().create!({ name: 'New' });
+      await flushPromises();
+
+      mockedApiClient.post.mockRejectedValue(new ApiError('Invalid', { kind: 'http', status: 400 }));
+      const after = createGenericStore<TestItem>(endpoint, {
+        refetchStrategy: 'none',
+        offline: { key: 'queue', storage, connectivity: createManualConnectivity(true), onFailure: jest.fn() },
+      });
+      after.setState({ items: [{ id: 1, name: 'One' }, created!] } as Partial<TestStoreState>); // As persisted
+      await flushPromises();
+      await after.getState().replayMutations!();
+
+      expect(after.getState().items).toEqual([{ id: 1, name: 'One' }]);
+    });
+
+    it('should keep the queue when the server is still unreachable', async () => {
+      const { store, connectivity } = createOfflineStore();
+      mockedApiClient.delete.mockRejectedValue(new ApiError('No response from server', { kind: 'network' }));
+
+      await store.getState().remove!(1);
+      connectivity.setOnline(true);
+      await store.getState().replayMutations!();
+
+      expect(mockedApiClient.delete).toHaveBeenCalledTimes(1);
+      expect(store.getState().pendingMutations).toHaveLength(1);
+    });
+
+    it('should restore the queue after a reload and replay it when online', async () => {
+      const storage = createMemoryStorage();
+      const offlineConnectivity = createManualConnectivity(false);
+      const before = createGenericStore<TestItem>(endpoint, {
+        offline: { key: 'queue', storage, connectivity: offlineConnectivity },
+      });
+      await before.getState().remove!(5);
+      await flushPromises();
+
+      mockedApiClient.delete.mockResolvedValue(undefined);
+      const after = createGenericStore<TestItem>(endpoint, {
+        refetchStrategy: 'none',
+        offline: { key: 'queue', storage, connectivity: createManualConnectivity(true) },
+      });
+      await flushPromises();
+      await after.getState().replayMutations!();
+
+      expect(mockedApiClient.delete).toHaveBeenCalledWith(`${endpoint}/5/`, {}, requestOptions);
+      expect(after.getState().pendingMutations).toEqual([]);
+      expect(storage.getItem('queue')).toBeNull();
+    });
+
+    it('should queue scoped stores under separate keys', async () => {
+      const storage = createMemoryStorage();
+      const createTaskStore = (online: boolean) => createGenericStore<TestItem>('/projects/:projectId/tasks', {
+        refetchStrategy: 'none',
+        offline: { key: 'tasks-queue', storage, connectivity: createManualConnectivity(online) },
+      });
+      const before = createTaskStore(false);
+      await before.scope({ projectId: 1 }).getState().create!({ name: 'First' });
+      await before.scope({ projectId: 2 }).getState().create!({ name: 'Second' });
+      await flushPromises();
+
+      mockedApiClient.post.mockImplementation(async (_url, payload) => ({ id: 10, ...payload }));
+      const after = createTaskStore(true);
+      await Promise.all([1, 2].map(async projectId => {
+        const scoped = after.scope({ projectId });
+        await flushPromises();
+        await scoped.getState().replayMutations!();
+      }));
+
+      expect(mockedApiClient.post).toHaveBeenCalledTimes(2);
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/projects/1/tasks/', { name: 'First' }, requestOptions);
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/projects/2/tasks/', { name: 'Second' }, requestOptions);
+      expect(storage.getItem('tasks-queue')).toBeNull();
+    });
+  });
+
+  describe('custom actions', () => {
+    const orderActions = defineCustomActions({
+      cancel: { path: ':id/cancel', merge: 'item' },
+      archiveAll: { path: 'archive', refresh: true },
+      me: { method: 'get', path: '/users/me', merge: { key: 'currentUser' } },
+      lookup: {
+        method: 'get',
+        path: 'lookup',
+        merge: 'items',
+        transform: (response: { results: TestItem[] }) => response.results,
+      },
+      rename: { method: 'patch', path: ':id/rename', body: (data: { name: string }) => ({ new_name: data.name }) },
+    });
+
+    const createOrderStore = (options = {}) =>
+      createGenericStore<TestItem, Record<string, never>, typeof orderActions>(endpoint, {
+        customActions: orderActions,
+        refetchStrategy: 'merge',
+        ...options,
+      });
+    type OrderStoreState = ReturnType<ReturnType<typeof createOrderStore>['getState']>;
+
+    it('should send the request and replace the item it returns', async () => {
+      const store = createOrderStore();
+      store.setState({ items: [{ id: 1, name: 'Open' }, { id: 2, name: 'Other' }] } as Partial<OrderStoreState>);
+      mockedApiClient.request.mockResolvedValue({ id: 1, name: 'Cancelled' });
+
+      const result = await store.getState().cancel({ id: 1, data: { reason: 'duplicate' } });
+
+      expect(mockedApiClient.request).toHaveBeenCalledWith({
+        method: 'post',
+        url: `${endpoint}/1/cancel/`,
+        data: { reason: 'duplicate' },
+        options: requestOptions,
+      });
+      expect(result).toEqual({ id: 1, name: 'Cancelled' });
+      expect(store.getState().item).toEqual({ id: 1, name: 'Cancelled' });
+      expect(store.getState().items).toEqual([{ id: 1, name: 'Cancelled' }, { id: 2, name: 'Other' }]);
+      expect(store.getState().status.cancel).toEqual({ loading: false, error: null, lastFetchedAt: expect.any(Number) });
+      expect(store.getState().pendingIds).toEqual([]);
+    });
+
+    it('should store results under a key and send GET data as query params', async () => {
+      const store = createOrderStore();
+      expect(store.getState().currentUser).toBeNull();
+      mockedApiClient.request.mockResolvedValue({ id: 9, name: 'Me' });
+
+      await store.getState().me({ params: { expand: 'team' } });
+
+      expect(mockedApiClient.request).toHaveBeenCalledWith({
+        method: 'get',
+        url: '/users/me/',
+        params: { expand: 'team' },
+        options: requestOptions,
+      });
+      expect(store.getState().currentUser).toEqual({ id: 9, name: 'Me' });
+      expect(store.getState().items).toEqual([]);
+    });
+
+    it('should transform the response and merge it into items', async () => {
+      const store = createOrderStore();
+      store.setState({ items: [{ id: 1, name: 'Old' }] } as Partial<OrderStoreState>);
+      mockedApiClient.request.mockResolvedValue({ results: [{ id: 1, name: 'New' }, { id: 2, name: 'Two' }] });
+
+      const results = await store.getState().lookup({ data: { q: 'n' } });
+
+      expect(mockedApiClient.request).toHaveBeenCalledWith(expect.objectContaining({ params: { q: 'n' } }));
+      expect(results).toEqual([{ id: 1, name: 'New' }, { id: 2, name: 'Two' }]);
+      expect(store.getState().items).toEqual([{ id: 1, name: 'New' }, { id: 2, name: 'Two' }]);
+    });
+
+    it('should map the data to the request body', async () => {
+      const store = createOrderStore();
+      mockedApiClient.request.mockResolvedValue({ id: 3, name: 'Renamed' });
+
+      await store.getState().rename({ id: 3, data: { name: 'Renamed' } });
+
+      expect(mockedApiClient.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'patch',
+        url: `${endpoint}/3/rename/`,
+        data: { new_name: 'Renamed' },
+      }));
+    });
+
+    it('should refresh the list when configured', async () => {
+      const store = createOrderStore({ refetchStrategy: 'refetch' });
+      mockedApiClient.request.mockResolvedValue(undefined);
+
+      await store.getState().archiveAll();
+      await store.getState().cancel({ id: 1 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record failures on the action and the id', async () => {
+      const store = createOrderStore();
+      const failure = new ApiError('Already shipped', { kind: 'http', status: 409 });
+      mockedApiClient.request.mockRejectedValue(failure);
+
+      const result = await store.getState().cancel({ id: 1 });
+
+      expect(result).toBeUndefined();
+      expect(store.getState().status.cancel.error).toBe(failure);
+      expect(store.getState().error).toBe(failure);
+      expect(store.getState().itemErrors).toEqual({ 1: failure });
+      expect(store.getState().loading).toBe(false);
+    });
+
+    it('should be cancelled by cancelAll', async () => {
+      const store = createOrderStore();
+      mockedApiClient.request.mockImplementation(() => new Promise(() => {}));
+
+      const pending = store.getState().cancel({ id: 1 });
+      expect(store.getState().loading).toBe(true);
+      expect(store.getState().status.cancel.loading).toBe(true);
+      store.getState().cancelAll();
+
+      expect(store.getState().status.cancel.loading).toBe(false);
+      expect(store.getState().loading).toBe(false);
+      const signal = mockedApiClient.request.mock.calls[0][0].options?.signal;
+      expect(signal?.aborted).toBe(true);
+      pending.catch(() => {});
+    });
+
+    it('should fill endpoint placeholders from path params', async () => {
+      const store = createGenericStore<TestItem, Record<string, never>, typeof orderActions>('/projects/:projectId/orders', {
+        customActions: orderActions,
+        pathParams: { projectId: 4 },
+      });
+      mockedApiClient.request.mockResolvedValue({ id: 1, name: 'Cancelled' });
+
+      await store.getState().cancel({ id: 1 });
+
+      expect(mockedApiClient.request).toHaveBeenCalledWith(expect.objectContaining({ url: '/projects/4/orders/1/cancel/' }));
+    });
+
+    it('should reject names that clash with built-in members', () => {
+      expect(() => createGenericStore<TestItem, Record<string, never>, { fetchAll: { path: 'all' } }>(endpoint, {
+        customActions: { fetchAll: { path: 'all' } },
+      }).getState()).toThrow('Custom action "fetchAll" clashes with a built-in store member');
+    });
+  });
+
+  describe('devtools', () => {
+    const connection = { init: jest.fn(), send: jest.fn(), subscribe: jest.fn(() => () => {}) };
+    const connect = jest.fn(() => connection);
+
+    beforeEach(() => {
+      (globalThis as any).window = { __REDUX_DEVTOOLS_EXTENSION__: { connect } };
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).window;
+    });
+
+    const sentActions = () => connection.send.mock.calls.map(([action]: any[]) => action.type);
+
+    it('should name the store after its endpoint and label changes with their action', async () => {
+      mockedApiClient.get.mockResolvedValue({ objects: [{ id: 1, name: 'One' }] });
+      mockedApiClient.post.mockRejectedValue(new ApiError('Invalid', { kind: 'http', status: 400 }));
+      const usersStore = createGenericStore<TestItem>('/users', { devtools: true, refetchStrategy: 'none' });
+
+      await usersStore.getState().fetchAll!();
+      await usersStore.getState().create!({ name: 'Two' });
+
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ name: 'users' }));
+      expect(sentActions()).toEqual([
+        'users/fetchAll/pending',
+        'users/fetchAll/pending',
+        'users/fetchAll/fulfilled',
+        'users/create/pending',
+        'users/create/rejected',
+      ]);
+    });
+
+    it('should use the configured name and fill in path params of scoped stores', async () => {
+      createGenericStore<TestItem>('/users', { devtools: { name: 'people' } }).getState().cancelAll();
+      const tasksStore = createGenericStore<TestItem>('/projects/:projectId/tasks', { devtools: true });
+      await tasksStore.scope({ projectId: 7 }).getState().fetchAll!();
+
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ name: 'people' }));
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ name: 'projects/:projectId/tasks' }));
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ name: 'projects/7/tasks' }));
+      expect(sentActions()).toContain('people/cancelAll');
+      expect(sentActions()).toContain('projects/7/tasks/fetchAll/fulfilled');
+    });
+
+    it('should not connect unless enabled', () => {
+      createGenericStore<TestItem>('/users');
+      createGenericStore<TestItem>('/users', { devtools: { enabled: false } });
+
+      expect(connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('custom client', () => {
+    it('should send requests through the client passed in options', async () => {
+      const billingClient = {
+        get: jest.fn().mockResolvedValue({ objects: [{ id: 7, name: 'Invoice' }] }),
+        post: jest.fn(),
+        put: jest.fn(),
+        patch: jest.fn(),
+        delete: jest.fn(),
+        head: jest.fn(),
+        options: jest.fn(),
+        postFile: jest.fn(),
+        upload: jest.fn(),
+        download: jest.fn(),
+        request: jest.fn(),
+        use: jest.fn(),
+        logger: createLogger({ level: 'silent' }),
+      };
+      const invoiceStore = createGenericStore<TestItem>('/invoices', { client: billingClient });
+
+      const state = invoiceStore.getState();
+      if (state.fetchAll) {
+        await state.fetchAll();
+      }
+
+      expect(billingClient.get).toHaveBeenCalledWith('/invoices/', {}, requestOptions);
+      expect(mockedApiClient.get).not.toHaveBeenCalled();
+      expect(invoiceStore.getState().items).toEqual([{ id: 7, name: 'Invoice' }]);
+    });
+  });
+
   // Test for extending the store with custom state/actions
   describe('extending the store', () => {
     interface ExtendedState {
@@ -1,184 +1,1597 @@
 // stores/createGenericStore.ts
-import { create, StoreApi, UseBoundStore } from 'zustand';
-import { apiClient } from './api';
-
-// Define the structure for pagination metadata
-export interface Meta {
-  currentPage: number;
-  totalPages: number;
-  totalCount: number;
+import { Method } from 'axios';
+import { createStore, StateCreator, StoreApi, UseBoundStore, useStore } from 'zustand';
+import { createJSONStorage, devtools, NamedSet, persist } from 'zustand/middleware';
+import { apiClient, ApiClient } from './api';
+import { RequestOptions } from './middleware';
+import { djangoAdapter, ListResult, Meta, ResponseAdapter } from './adapters';
+import { EntityCache, EntityCacheState } from './entities';
+import { getQueryKey } from './queryKeys';
+import { buildUrl, PathParams, splitPathParams } from './endpoints';
+import { ApiError } from './errors';
+import { mapSettled } from './concurrency';
+import { Schema, validateResponse, ValidationContext, ValidationMode } from './validation';
+import {
+  getDefaultStorage,
+  migratePersisted,
+  persistableFields,
+  PersistApi,
+  PersistField,
+  PersistOptions,
+  pickPersisted,
+} from './persistence';
+import {
+  browserConnectivity,
+  createMutationId,
+  isConflict,
+  loadQueue,
+  OfflineOptions,
+  QueuedMutation,
+  saveQueue,
+  shouldRetryLater,
+} from './offline';
+import {
+  CustomActionCall,
+  CustomActionConfig,
+  CustomActions,
+  CustomActionState,
+  getCustomActionTemplate,
+} from './customActions';
+
+export type { Meta } from './adapters';
+
+// Status of a single store action
+export interface ActionStatus {
+  loading: boolean;
+  error: Error | null;
+  lastFetchedAt: number | null; // Timestamp (ms) of the last successful call
 }
 
 // Define the base state for the generic store
 export interface GenericState<T> {
   items: T[];
   item: T | null;
-  loading: boolean;
-  error: Error | null;
+  loading: boolean; // True while any action is in progress
+  retrying: boolean; // True while a failed request is being retried, e.g. to show "reconnecting"
+  error: Error | null; // Last error of any action; an ApiError when the failure came from apiClient
   meta: Meta;
+  // Per-action loading/error, e.g. status.fetchAll.loading; custom actions get an entry under their name
+  status: Record<ActionType, ActionStatus> & Record<string, ActionStatus>;
+  pendingIds: Array<string | number>; // Ids with an update or remove in flight, for row-level spinners
+  itemErrors: Record<string, Error>; // Last update/remove error per id
+  lastParams: Record<string, any>; // Params of the latest fetchAll call, replayed by the 'refetch' strategy
+  hasNextPage: boolean; // Whether fetchNextPage has a page to load
+  hasPreviousPage: boolean; // Whether fetchPreviousPage has a page to load
+  loadingMore: boolean; // True while fetchNextPage/fetchPreviousPage is in progress
+  filters: Record<string, any>; // Sent as query params by the query actions
+  sort: SortState | null;
+  search: string;
+  pendingMutations: QueuedMutation[]; // Mutations made while offline, in the order they will be replayed
+}
+
+// Sort order of the list, mapped to a query param by QueryOptions.formatSort
+export interface SortState {
+  field: string;
+  direction: 'asc' | 'desc';
 }
 
+// How the filter, sort and search state maps to fetchAll params
+export interface QueryOptions {
+  searchParam?: string; // Defaults to 'search'
+  sortParam?: string; // Defaults to 'ordering'
+  formatSort?: (sort: SortState) => string; // Defaults to DRF style, e.g. '-created_at'
+  debounce?: number; // Delay (ms) before setFilters/setSort/setSearch fetch; defaults to 300
+  initialFilters?: Record<string, any>;
+}
+
+// Errors thrown by apiClient are ApiError instances and are stored as-is,
+// so consumers can narrow `error` with isApiError to read status, data, etc.
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+// Temporary ids for optimistically created items, replaced by the server id on success
+let tempIdCounter = 0;
+// The timestamp keeps ids unique across reloads, as queued offline creates are persisted with theirs
+const createTempId = (): string => `temp-${Date.now().toString(36)}-${++tempIdCounter}`;
+
+// Check whether an id is a temporary id of an optimistically created item
+export const isTempId = (id: string | number): boolean =>
+  typeof id === 'string' && id.startsWith('temp-');
+
+const initialActionStatus: ActionStatus = { loading: false, error: null, lastFetchedAt: null };
+
 // Define the available actions as string literals
-export type ActionType = 'fetchAll' | 'fetchOne' | 'create' | 'update' | 'remove';
+export type ActionType =
+  | 'fetchAll' | 'fetchOne' | 'create' | 'update' | 'remove'
+  | 'createMany' | 'updateMany' | 'removeMany';
+
+const allActions: ActionType[] = [
+  'fetchAll', 'fetchOne', 'create', 'update', 'remove',
+  'createMany', 'updateMany', 'removeMany',
+];
+
+// How a store refreshes its list after a successful create, update or remove:
+// - 'refetch': call fetchAll again with the params of the latest fetchAll call
+// - 'merge': insert/replace/remove the entity in `items` and `item` locally, without a request
+// - 'none': leave the list as-is
+export type RefetchStrategy = 'refetch' | 'merge' | 'none';
+
+// Compare field values; nested objects and arrays are compared by their JSON representation
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Keep only the fields of the payload that differ from the cached entity
+const diffPayload = <T>(payload: Partial<T>, cached: T): Partial<T> =>
+  (Object.keys(payload) as Array<keyof T>).reduce((changed, key) => (
+    isSameValue(payload[key], cached[key]) ? changed : { ...changed, [key]: payload[key] }
+  ), {} as Partial<T>);
+
+// Outcome of a bulk action: what succeeded, and which inputs failed
+export interface BulkResult<TValue> {
+  succeeded: TValue[]; // Created/updated entities, or removed ids
+  failed: Array<{ index: number; error: Error }>; // Index into the input array
+}
+
+// How bulk actions talk to the API
+export interface BulkOptions {
+  // Single request per batch, e.g. '/users/bulk': POST with the payloads, PUT/PATCH with the updates,
+  // DELETE with `{ ids }` as body. Without it, bulk actions send one request per item.
+  endpoint?: string;
+  concurrency?: number; // Individual requests in flight at once; defaults to 4
+}
+
+// Per-call options for create, update and remove
+export interface MutationOptions {
+  optimistic?: boolean; // Overrides the store's `optimistic` option for this call
+  pathParams?: PathParams; // Fills endpoint placeholders for this call, on top of the store's pathParams
+}
 
 // Define the actions for the generic store
 export interface GenericActions<T> {
-  fetchAll?: (params?: Record<string, any>) => Promise<void>;
-  fetchOne?: (id: string | number) => Promise<void>;
-  create?: (payload: Partial<T>) => Promise<T | undefined>;
-  update?: (id: string | number, payload: Partial<T>) => Promise<T | undefined>;
-  remove?: (id: string | number) => Promise<void>;
+  fetchAll?: (params?: Record<string, any>) => Promise<void>; // Params named like endpoint placeholders fill them
+  fetchOne?: (id: string | number, pathParams?: PathParams) => Promise<void>;
+  create?: (payload: Partial<T>, options?: MutationOptions) => Promise<T | undefined>;
+  update?: (id: string | number, payload: Partial<T>, options?: MutationOptions) => Promise<T | undefined>;
+  remove?: (id: string | number, options?: MutationOptions) => Promise<void>;
+  // Bulk actions refresh the list once at the end; `optimistic` doesn't apply to them
+  createMany?: (payloads: Partial<T>[], options?: MutationOptions) => Promise<BulkResult<T>>;
+  updateMany?: (updates: Array<Partial<T> & { id: string | number }>, options?: MutationOptions) => Promise<BulkResult<T>>;
+  removeMany?: (ids: Array<string | number>, options?: MutationOptions) => Promise<BulkResult<string | number>>;
+  cancelAll: () => void; // Aborts every in-flight request of the store, e.g. on unmount
+  selectById: (id: string | number) => T | undefined; // Reads the entity cache if configured, else items/item
+  selectAll: () => T[]; // Every cached entity if an entity cache is configured, else items
+  invalidate: (params?: Record<string, any>) => void; // Marks cached results stale: the list for `params`, or everything
+  refetch?: () => Promise<void>; // Fetches the current list again with lastParams, bypassing the cache
+  fetchNextPage?: () => Promise<void>; // Appends the page after the last loaded one to items
+  fetchPreviousPage?: () => Promise<void>; // Prepends the page before the first loaded one to items
+  // Query actions update the state and fetch the first page with the combined params after a debounce
+  setFilters?: (filters: Record<string, any>) => void; // Merged into filters; undefined values remove a filter
+  setSort?: (sort: SortState | null) => void;
+  setSearch?: (search: string) => void;
+  setPage?: (page: number) => Promise<void>; // Fetches the page of the current query right away
+  resetQuery?: () => void; // Restores the initial filters and clears sort and search
+  replayMutations?: () => Promise<void>; // Sends the offline queue now; present with the `offline` option
+  dehydrate: () => DehydratedState<T>; // Serializable snapshot of the data, e.g. after prefetching on the server
+  hydrate: (snapshot: DehydratedState<T>) => void; // Restores a snapshot taken by dehydrate(), e.g. in the browser
 }
 
+// Data of a store as taken by dehydrate(), safe to serialize into a server rendered page
+export interface DehydratedState<T> {
+  state: Partial<Pick<GenericState<T>, PersistField>>; // The persistable fields, or the `persist` option's `fields`
+  // When the list and item were fetched, if they were; hydrate() caches them as fetched at that time
+  fetchedAt: { fetchAll: number | null; fetchOne: number | null };
+}
+
+// Custom action configs keyed by action name
+type CustomActionConfigs = Record<string, CustomActionConfig>;
+
+// Everything a store holds: generic state and actions, custom actions and the extension
+type StoreState<T, TExtension, TCustom> =
+  GenericState<T> & GenericActions<T> & CustomActions<T, TCustom> & CustomActionState<T, TCustom> & TExtension;
+
 // Define the type for the optional extendStore function
 // TExtension defines the shape of the object returned by extendStore
-type ExtendStore<T, TExtension extends Record<string, any>> = (
-  set: StoreApi<GenericState<T> & GenericActions<T> & TExtension>['setState'],
-  get: StoreApi<GenericState<T> & GenericActions<T> & TExtension>['getState'],
+type ExtendStore<T, TExtension extends Record<string, any>, TCustom extends CustomActionConfigs = Record<never, never>> = (
+  set: StoreApi<StoreState<T, TExtension, TCustom>>['setState'],
+  get: StoreApi<StoreState<T, TExtension, TCustom>>['getState'],
 ) => TExtension;
 
 // Define the return type of createGenericStore
 // It returns a Zustand hook specialized for the combined type
-type CreateGenericStoreReturn<T, TExtension extends Record<string, any>> = UseBoundStore<StoreApi<GenericState<T> & GenericActions<T> & TExtension>>;
+type CreateGenericStoreReturn<
+  T extends { id: string | number },
+  TExtension extends Record<string, any>,
+  TCustom extends CustomActionConfigs = Record<never, never>,
+> =
+  UseBoundStore<StoreApi<StoreState<T, TExtension, TCustom>>> & {
+    // A separate store for the endpoint with the given path params; the same params return the same store
+    scope: (pathParams: PathParams) => CreateGenericStoreReturn<T, TExtension, TCustom>;
+    // A new, independent store with the same definition, e.g. one per server request
+    createInstance: (overrides?: Partial<GenericStoreOptions<T, TExtension, TCustom>>) => CreateGenericStoreReturn<T, TExtension, TCustom>;
+    persist?: PersistApi; // Present when the `persist` option is set
+  };
 
+// The return type of createVanillaGenericStore: the same store without the React hook
+export type VanillaGenericStore<
+  T extends { id: string | number },
+  TExtension extends Record<string, any> = Record<string, never>,
+  TCustom extends CustomActionConfigs = Record<never, never>,
+> =
+  StoreApi<StoreState<T, TExtension, TCustom>> & {
+    scope: (pathParams: PathParams) => VanillaGenericStore<T, TExtension, TCustom>;
+    createInstance: (overrides?: Partial<GenericStoreOptions<T, TExtension, TCustom>>) => VanillaGenericStore<T, TExtension, TCustom>;
+    persist?: PersistApi;
+  };
 
-// Update function signature to accept TExtension generic
-export const createGenericStore = <
+
+// Define the options accepted by createGenericStore
+export interface GenericStoreOptions<
+  T extends { id: string | number },
+  TExtension extends Record<string, any>,
+  TCustom extends CustomActionConfigs = Record<never, never>,
+> {
+  actions?: ActionType[];
+  extendStore?: ExtendStore<T, TExtension, TCustom>;
+  client?: ApiClient; // Defaults to the global apiClient configured via initApiClient
+  responseAdapter?: ResponseAdapter<T>; // Maps list responses; defaults to the client's adapter, then djangoAdapter
+  optimistic?: boolean; // Apply create/update/remove locally before the server responds, rolling back on failure
+  refetchStrategy?: RefetchStrategy; // How the list is refreshed after a successful mutation; defaults to 'refetch'
+  updateMethod?: 'put' | 'patch'; // HTTP method used by update; defaults to 'put'
+  diffUpdates?: boolean; // Make update send only the fields that differ from the cached entity
+  entityCache?: EntityCache<T>; // Normalized cache shared with other stores of the same resource type
+  staleTime?: number; // How long (ms) fetched results are served from the cache without a request; defaults to 0
+  cacheTime?: number; // How long (ms) fetched results are kept to show while revalidating; defaults to 5 minutes
+  pageParam?: string; // Query param fetchNextPage/fetchPreviousPage set for page-number pagination; defaults to 'page'
+  cursorParam?: string; // Query param they set for cursor pagination; defaults to 'cursor'
+  query?: QueryOptions;
+  pathParams?: PathParams; // Values for the endpoint's `:name` placeholders
+  trailingSlash?: boolean; // Append '/' to every URL (Django style); defaults to true
+  bulk?: BulkOptions;
+  customActions?: TCustom; // Actions beyond CRUD, generated with the same status, cancellation and refresh handling
+  schema?: Schema<T>; // Validates every entity the store receives: list items, fetchOne and mutation responses
+  listSchema?: Schema<unknown>; // Validates fetchAll responses before the responseAdapter maps them
+  validation?: ValidationMode; // Defaults to the client's `validation` option, then 'throw'
+  persist?: PersistOptions; // Save chosen state to storage and restore it when the store is created
+  offline?: OfflineOptions<T>; // Queue create/update/remove while offline and replay them on reconnect
+  devtools?: boolean | StoreDevtoolsOptions; // Show the store in Redux DevTools with labelled actions
+}
+
+// Redux DevTools integration of a store
+export interface StoreDevtoolsOptions {
+  // Name of the store in DevTools and prefix of its action labels ('users/fetchAll/pending').
+  // Defaults to the endpoint, with path params filled in for scoped stores.
+  name?: string;
+  enabled?: boolean; // Defaults to true outside production builds
+}
+
+// A cached fetchAll or fetchOne result
+interface CacheEntry<TData> {
+  data: TData;
+  fetchedAt: number;
+  stale: boolean; // Set by invalidate() and by mutations
+}
+
+// Build the store itself; createGenericStore and createVanillaGenericStore add the hook and helpers
+const createStoreApi = <
     T extends { id: string | number },
-    TExtension extends Record<string, any> = Record<string, never> // Default to empty object if no extension
+    TExtension extends Record<string, any>,
+    TCustom extends CustomActionConfigs
 >(
   endpoint: string,
-  options?: {
-    actions?: ActionType[];
-    extendStore?: ExtendStore<T, TExtension>;
-  }
-): CreateGenericStoreReturn<T, TExtension> => { // Use the updated return type
+  options?: GenericStoreOptions<T, TExtension, TCustom>
+): StoreApi<StoreState<T, TExtension, TCustom>> & { persist?: PersistApi } => {
 
     // Default function if extendStore is not provided
     // Cast the empty object to TExtension to satisfy the type
-    const defaultExtend = (() => ({} as TExtension)) as ExtendStore<T, TExtension>;
+    const defaultExtend = (() => ({} as TExtension)) as ExtendStore<T, TExtension, TCustom>;
     
     // Default actions include all available actions if none specified
-    const availableActions: ActionType[] = options?.actions || ['fetchAll', 'fetchOne', 'create', 'update', 'remove'];
+    const availableActions: ActionType[] = options?.actions || allActions;
+
+    // Client used for every request made by this store
+    const client: ApiClient = options?.client || apiClient;
+    const updateMethod = options?.updateMethod || 'put';
+    const trailingSlash = options?.trailingSlash ?? true;
+
+    // Resolve the endpoint template; params named like a placeholder fill it, the rest are sent as the query
+    const listRequest = (params: Record<string, any>): [string, Record<string, any>] => {
+      const [pathParams, query] = splitPathParams(endpoint, params);
+      return [buildUrl(endpoint, { ...options?.pathParams, ...pathParams }, undefined, trailingSlash), query];
+    };
+
+    const listUrl = (pathParams?: PathParams) =>
+      buildUrl(endpoint, { ...options?.pathParams, ...pathParams }, undefined, trailingSlash);
+
+    const detailUrl = (id: string | number, pathParams?: PathParams) =>
+      buildUrl(endpoint, { ...options?.pathParams, ...pathParams }, id, trailingSlash);
+
+    // Key of a list query, including the store's path params so scoped stores sharing caches don't collide
+    const queryKeyFor = (params: Record<string, any>) => getQueryKey(endpoint, { ...options?.pathParams, ...params });
 
     // Define the full state type for casting partial updates
-    type FullStoreState = GenericState<T> & GenericActions<T> & TExtension;
+    type FullStoreState = StoreState<T, TExtension, TCustom>;
+
+    const customConfigs: CustomActionConfigs = options?.customActions || {};
+
+    // Fields persisted by the `persist` option and snapshot by dehydrate()
+    const persistOptions = options?.persist;
+    const persistFields = persistOptions?.fields || persistableFields;
+
+    // Set up by the store so persisted state can be wired into its caches once rehydrated
+    let handleRehydrated: (() => void) | undefined;
+
+    const devtoolsOptions = typeof options?.devtools === 'object' ? options.devtools : {};
+    const storeName = devtoolsOptions.name || (() => {
+      try {
+        return listUrl().replace(/^\/+|\/+$/g, '');
+      } catch {
+        return endpoint.replace(/^\/+|\/+$/g, ''); // Placeholders without values
+      }
+    })();
+
+    const initializer: StateCreator<FullStoreState> = (set, get) => {
+      // Every change is labelled with the action that caused it, e.g. 'users/fetchAll/pending'.
+      // Only the devtools middleware reads the label; plain stores ignore it.
+      const setState = (
+        update: Partial<FullStoreState> | ((state: FullStoreState) => Partial<FullStoreState>),
+        label: string,
+      ) => {
+        (set as NamedSet<FullStoreState>)(update, false, `${storeName}/${label}`);
+      };
 
-    return create<FullStoreState>((set, get) => {
       // Initialize with base state
       const store: GenericState<T> & Partial<GenericActions<T>> = {
         // === Generic state ===
         items: [],
         item: null,
         loading: false,
+        retrying: false,
         error: null,
         meta: {
           currentPage: 1,
           totalPages: 1,
           totalCount: 0,
+        },
+        status: [...allActions, ...Object.keys(customConfigs)].reduce((status, action) => ({
+          ...status,
+          [action]: { ...initialActionStatus },
+        }), {} as GenericState<T>['status']),
+        pendingIds: [],
+        itemErrors: {},
+        lastParams: {},
+        hasNextPage: false,
+        hasPreviousPage: false,
+        loadingMore: false,
+        filters: options?.query?.initialFilters || {},
+        sort: null,
+        search: '',
+        pendingMutations: [],
+      };
+
+      // Controllers of every in-flight request, aborted by cancelAll
+      const inFlight = new Set<AbortController>();
+      // The latest call of each fetch action; a new call aborts the previous one
+      const latestFetch: { fetchAll?: AbortController; fetchOne?: AbortController; fetchPage?: AbortController } = {};
+
+      // Start tracking a request. Fetches supersede the previous call of the same action
+      // so `items` and `item` always reflect the latest call.
+      const startRequest = (fetchAction?: keyof typeof latestFetch): AbortController => {
+        const controller = new AbortController();
+        if (fetchAction) {
+          latestFetch[fetchAction]?.abort();
+          latestFetch[fetchAction] = controller;
         }
+        inFlight.add(controller);
+        return controller;
+      };
+
+      // Per-call options for every request, reporting retries in state
+      const requestOptions = (controller: AbortController, action: string): RequestOptions => ({
+        onRetry: () => setState({ retrying: true } as Partial<FullStoreState>, `${action}/retry`),
+        signal: controller.signal,
+      });
+
+      const isAnyLoading = (status: GenericState<T>['status']) =>
+        Object.keys(status).some(name => status[name].loading);
+
+      // Update one action's status along with other state, keeping the aggregate `loading` in sync.
+      // Actions are built-in ActionTypes or custom action names; the phase completes the devtools label.
+      const setStatus = (
+        action: string,
+        phase: string,
+        patch: Partial<ActionStatus>,
+        update: Partial<GenericState<T>> = {},
+      ) => {
+        setState(state => {
+          const status = { ...state.status, [action]: { ...state.status[action], ...patch } };
+          return {
+            ...update,
+            status,
+            loading: state.loadingMore || isAnyLoading(status),
+          } as Partial<FullStoreState>;
+        }, `${action}/${phase}`);
+      };
+
+      const setLoadingMore = (loadingMore: boolean, label: string) => {
+        setState(state => ({
+          loadingMore,
+          loading: loadingMore || isAnyLoading(state.status),
+        }) as Partial<FullStoreState>, label);
+      };
+
+      const beginAction = (action: string) => {
+        setStatus(action, 'pending', { loading: true, error: null }, { error: null });
+      };
+
+      const succeedAction = (action: string, update: Partial<GenericState<T>> = {}) => {
+        setStatus(action, 'fulfilled', { loading: false, lastFetchedAt: Date.now() }, { ...update, retrying: false });
+      };
+
+      const failAction = (action: string, error: unknown) => {
+        const storedError = toError(error);
+        setStatus(action, 'rejected', { loading: false, error: storedError }, { error: storedError, retrying: false });
+      };
+
+      // Track per-id mutations so tables can show row-level spinners and errors
+      const beginItem = (id: string | number, action: string) => {
+        setState(state => {
+          const { [String(id)]: _cleared, ...itemErrors } = state.itemErrors;
+          return { pendingIds: [...state.pendingIds, id], itemErrors } as Partial<FullStoreState>;
+        }, `${action}/pending`);
+      };
+
+      const finishItem = (id: string | number, action: string, error?: unknown) => {
+        setState(state => {
+          // Remove a single entry so concurrent mutations of the same id stay pending
+          const index = state.pendingIds.indexOf(id);
+          const pendingIds = index === -1
+            ? state.pendingIds
+            : [...state.pendingIds.slice(0, index), ...state.pendingIds.slice(index + 1)];
+          const itemErrors = error === undefined
+            ? state.itemErrors
+            : { ...state.itemErrors, [String(id)]: toError(error) };
+          return { pendingIds, itemErrors } as Partial<FullStoreState>;
+        }, `${action}/${error === undefined ? 'fulfilled' : 'rejected'}`);
+      };
+
+      const entityCache = options?.entityCache;
+
+      // Apply entity changes made through the shared cache (possibly by another store) to items and item.
+      // Only entities that changed are touched, so local optimistic state isn't overwritten.
+      const applyCacheChanges = (next: EntityCacheState<T>, prev: EntityCacheState<T>) => {
+        const wasRemoved = (id: string | number) => String(id) in prev.byId && !(String(id) in next.byId);
+        const changed = (id: string | number) => next.byId[String(id)] !== prev.byId[String(id)];
+        setState(state => {
+          const items = state.items
+            .filter(existing => !wasRemoved(existing.id))
+            .map(existing => (changed(existing.id) ? next.byId[String(existing.id)] : existing));
+          const removedCount = state.items.length - items.length;
+          let item = state.item;
+          if (item && wasRemoved(item.id)) {
+            item = null;
+          } else if (item && changed(item.id)) {
+            item = next.byId[String(item.id)];
+          }
+          return {
+            items,
+            item,
+            meta: removedCount
+              ? { ...state.meta, totalCount: Math.max(0, state.meta.totalCount - removedCount) }
+              : state.meta,
+          } as Partial<FullStoreState>;
+        }, 'entityCache/sync');
+      };
+      entityCache?.subscribe(applyCacheChanges);
+
+      // Write server confirmed entities to the shared cache
+      const cacheEntities = (entities: T[]) => {
+        entityCache?.upsert(entities.filter(entity => entity && typeof entity === 'object'));
+      };
+
+      store.selectById = (id: string | number) => {
+        if (entityCache) {
+          return entityCache.selectById(id);
+        }
+        const { items, item } = get();
+        return items.find(existing => existing.id === id) || (item?.id === id ? item : undefined);
+      };
+
+      store.selectAll = () => (entityCache ? entityCache.selectAll() : get().items);
+
+      // Query changes are debounced so typing into a search box fetches once
+      const debounce = options?.query?.debounce ?? 300;
+      let queryTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const cancelQueryFetch = () => {
+        if (queryTimer !== undefined) {
+          clearTimeout(queryTimer);
+          queryTimer = undefined;
+        }
+      };
+
+      const scheduleQueryFetch = () => {
+        cancelQueryFetch();
+        queryTimer = setTimeout(() => {
+          queryTimer = undefined;
+          runFetchAll(buildQueryParams(), true);
+        }, debounce);
+      };
+
+      store.cancelAll = () => {
+        cancelQueryFetch();
+        inFlight.forEach(controller => controller.abort());
+        inFlight.clear();
+        setState(state => {
+          const reset: Partial<GenericState<T>> = {
+            status: Object.keys(state.status).reduce((status, action) => ({
+              ...status,
+              [action]: { ...state.status[action], loading: false },
+            }), {} as GenericState<T>['status']),
+            loading: false,
+            retrying: false,
+            loadingMore: false,
+            pendingIds: [],
+          };
+          return reset as Partial<FullStoreState>;
+        }, 'cancelAll');
+      };
+
+      // Results of previous fetches: served without a request while fresh,
+      // and shown while a new request revalidates them once stale
+      const staleTime = options?.staleTime ?? 0;
+      const cacheTime = options?.cacheTime ?? 5 * 60 * 1000;
+      const listCache = new Map<string, CacheEntry<ListResult<T>>>();
+      const itemCache = new Map<string, CacheEntry<T>>();
+
+      const readCache = <TData>(cache: Map<string, CacheEntry<TData>>, key: string): CacheEntry<TData> | undefined => {
+        const entry = cache.get(key);
+        if (entry && Date.now() - entry.fetchedAt >= cacheTime) {
+          cache.delete(key);
+          return undefined;
+        }
+        return entry;
+      };
+
+      const writeCache = <TData>(cache: Map<string, CacheEntry<TData>>, key: string, data: TData) => {
+        const now = Date.now();
+        // Drop expired entries so caches of long-lived stores don't grow without bound
+        cache.forEach((entry, existingKey) => {
+          if (now - entry.fetchedAt >= cacheTime) cache.delete(existingKey);
+        });
+        if (cacheTime > 0) {
+          cache.set(key, { data, fetchedAt: now, stale: false });
+        }
+      };
+
+      const isFresh = (entry: CacheEntry<unknown>) => !entry.stale && Date.now() - entry.fetchedAt < staleTime;
+
+      // Serve a fresh cache hit: the call supersedes any fetch of the same action still in flight
+      const settleFromCache = (action: 'fetchAll' | 'fetchOne') => {
+        latestFetch[action]?.abort();
+        latestFetch[action] = undefined;
+        setStatus(action, 'cached', { loading: false });
+      };
+
+      const markAllStale = () => {
+        listCache.forEach(entry => { entry.stale = true; });
+        itemCache.forEach(entry => { entry.stale = true; });
+      };
+
+      store.invalidate = (params?: Record<string, any>) => {
+        if (params === undefined) {
+          markAllStale();
+          return;
+        }
+        const entry = listCache.get(queryKeyFor(params));
+        if (entry) {
+          entry.stale = true;
+        }
+      };
+
+      // Resolved per call so a responseAdapter set later via initApiClient is picked up
+      const getResponseAdapter = () => options?.responseAdapter || client.responseAdapter || djangoAdapter;
+
+      const validationMode = (): ValidationMode => options?.validation ?? client.validation ?? 'throw';
+
+      // Validate an entity from a response with the store's schema.
+      // Empty bodies, e.g. of a 204 response to an update, are passed through.
+      const checkEntity = (entity: any, context: ValidationContext): T => {
+        if (!options?.schema || entity === undefined || entity === null || entity === '') {
+          return entity;
+        }
+        return validateResponse(options.schema, entity, context, validationMode(), client.logger);
+      };
+
+      // Validate a list response and its items, mapping it with the response adapter in between
+      const parseList = (data: unknown, url: string): ListResult<T> => {
+        const context: ValidationContext = { method: 'get', url };
+        const envelope = options?.listSchema
+          ? validateResponse(options.listSchema, data, context, validationMode(), client.logger)
+          : data;
+        const { items, meta } = getResponseAdapter()(envelope);
+        return {
+          items: items.map((entity, index) => checkEntity(entity, { ...context, path: `items[${index}]` })),
+          meta,
+        };
+      };
+
+      // Pagination of the first and last page loaded into `items`; `meta` always describes the last one
+      const pageParam = options?.pageParam || 'page';
+      const cursorParam = options?.cursorParam || 'cursor';
+      let firstPage: Meta | undefined;
+      let lastPage: Meta | undefined;
+
+      const hasNext = (meta: Meta) => Boolean(meta.nextCursor || meta.next) || meta.currentPage < meta.totalPages;
+      const hasPrevious = (meta: Meta) => Boolean(meta.previousCursor || meta.previous) || meta.currentPage > 1;
+
+      const setPageBounds = (first: Meta, last: Meta) => {
+        firstPage = first;
+        lastPage = last;
+        return { hasNextPage: hasNext(last), hasPreviousPage: hasPrevious(first) };
+      };
+
+      const runFetchAll = async (params: Record<string, any>, useCache: boolean) => {
+        // A new list replaces the loaded pages, so drop any page still loading
+        if (latestFetch.fetchPage) {
+          latestFetch.fetchPage.abort();
+          latestFetch.fetchPage = undefined;
+          setLoadingMore(false, 'fetchAll/pending');
+        }
+        const queryKey = queryKeyFor(params);
+        const cached = useCache ? readCache(listCache, queryKey) : undefined;
+        if (cached) {
+          // Prefer the shared entity cache, which reflects changes made by other stores since
+          const items = entityCache?.getState().queries[queryKey]
+            ? entityCache.selectQuery(queryKey)
+            : cached.data.items;
+          const { meta } = cached.data;
+          setState({ items, meta, lastParams: params, ...setPageBounds(meta, meta) } as Partial<FullStoreState>, 'fetchAll/cached');
+          if (isFresh(cached)) {
+            settleFromCache('fetchAll');
+            return;
+          }
+        }
+        const controller = startRequest('fetchAll');
+        setState({ lastParams: params } as Partial<FullStoreState>, 'fetchAll/pending');
+        beginAction('fetchAll');
+        try {
+          const [url, query] = listRequest(params);
+          const data = await client.get(url, query, requestOptions(controller, 'fetchAll'));
+          // Discard responses of superseded or cancelled calls, even if the client ignored the signal
+          if (controller.signal.aborted) return;
+          const { items, meta } = parseList(data, url);
+          writeCache(listCache, queryKey, { items, meta });
+          cacheEntities(items);
+          entityCache?.setQuery(queryKey, items.map(entity => entity.id));
+          succeedAction('fetchAll', { items, meta, ...setPageBounds(meta, meta) });
+        } catch (error: any) {
+          if (controller.signal.aborted) return;
+          failAction('fetchAll', error);
+        } finally {
+          inFlight.delete(controller);
+        }
+      };
+
+      // Load the page after the last (or before the first) loaded page with the current list params.
+      // Items already in the list are skipped, e.g. when new records pushed them onto the next page.
+      const fetchPage = async (direction: 'next' | 'previous') => {
+        const bound = direction === 'next' ? lastPage : firstPage;
+        if (get().loadingMore || !bound || !(direction === 'next' ? hasNext(bound) : hasPrevious(bound))) {
+          return;
+        }
+        const cursor = direction === 'next' ? bound.nextCursor : bound.previousCursor;
+        const params = cursor
+          ? { ...get().lastParams, [cursorParam]: cursor }
+          : { ...get().lastParams, [pageParam]: bound.currentPage + (direction === 'next' ? 1 : -1) };
+        const action = direction === 'next' ? 'fetchNextPage' : 'fetchPreviousPage';
+        const controller = startRequest('fetchPage');
+        setLoadingMore(true, `${action}/pending`);
+        try {
+          const [url, query] = listRequest(params);
+          const data = await client.get(url, query, requestOptions(controller, action));
+          if (controller.signal.aborted) return;
+          const { items, meta } = parseList(data, url);
+          cacheEntities(items);
+          const pageFlags = direction === 'next'
+            ? setPageBounds(firstPage || meta, meta)
+            : setPageBounds(meta, lastPage || meta);
+          setState(state => {
+            const loaded = new Set(state.items.map(entity => entity.id));
+            const added = items.filter(entity => !loaded.has(entity.id));
+            return (direction === 'next'
+              ? { items: [...state.items, ...added], meta, ...pageFlags }
+              : {
+                items: [...added, ...state.items],
+                meta: { ...state.meta, totalPages: meta.totalPages, totalCount: meta.totalCount },
+                ...pageFlags,
+              }) as Partial<FullStoreState>;
+          }, `${action}/fulfilled`);
+          setLoadingMore(false, `${action}/fulfilled`);
+        } catch (error: any) {
+          if (controller.signal.aborted) return;
+          setLoadingMore(false, `${action}/rejected`);
+          failAction('fetchAll', error);
+        } finally {
+          inFlight.delete(controller);
+        }
+      };
+
+      // Combine filters, sort and search into fetchAll params, keeping path params of the last fetchAll
+      const buildQueryParams = (): Record<string, any> => {
+        const { filters, sort, search, lastParams } = get();
+        const [pathParams] = splitPathParams(endpoint, lastParams);
+        const {
+          searchParam = 'search',
+          sortParam = 'ordering',
+          formatSort = (order: SortState) => (order.direction === 'desc' ? `-${order.field}` : order.field),
+        } = options?.query || {};
+        return {
+          ...pathParams,
+          ...filters,
+          ...(search && { [searchParam]: search }),
+          ...(sort && { [sortParam]: formatSort(sort) }),
+        };
       };
 
       // Conditionally add actions based on configuration
       if (availableActions.includes('fetchAll')) {
-        store.fetchAll = async (params: Record<string, any> = {}) => {
-          set({ loading: true, error: null } as Partial<FullStoreState>);
+        store.fetchAll = (params: Record<string, any> = {}) => runFetchAll(params, true);
+        store.refetch = () => runFetchAll(get().lastParams, false);
+        store.fetchNextPage = () => fetchPage('next');
+        store.fetchPreviousPage = () => fetchPage('previous');
+
+        store.setFilters = (filters: Record<string, any>) => {
+          const merged = { ...get().filters, ...filters };
+          Object.keys(merged).forEach(key => {
+            if (merged[key] === undefined) delete merged[key];
+          });
+          setState({ filters: merged } as Partial<FullStoreState>, 'setFilters');
+          scheduleQueryFetch();
+        };
+        store.setSort = (sort: SortState | null) => {
+          setState({ sort } as Partial<FullStoreState>, 'setSort');
+          scheduleQueryFetch();
+        };
+        store.setSearch = (search: string) => {
+          setState({ search } as Partial<FullStoreState>, 'setSearch');
+          scheduleQueryFetch();
+        };
+        store.setPage = (page: number) => {
+          cancelQueryFetch();
+          return runFetchAll({ ...buildQueryParams(), [pageParam]: page }, true);
+        };
+        store.resetQuery = () => {
+          setState({ filters: options?.query?.initialFilters || {}, sort: null, search: '' } as Partial<FullStoreState>, 'resetQuery');
+          scheduleQueryFetch();
+        };
+      }
+
+      if (availableActions.includes('fetchOne')) {
+        store.fetchOne = async (id: string | number, pathParams?: PathParams) => {
+          let url: string;
           try {
-            interface ApiResponse {
-                objects?: T[];
-                current_page?: number;
-                num_pages?: number;
-                total_count?: number;
+            url = detailUrl(id, pathParams);
+          } catch (error) {
+            failAction('fetchOne', error);
+            return;
+          }
+          const cached = readCache(itemCache, url);
+          if (cached) {
+            setState({ item: entityCache?.selectById(id) || cached.data } as Partial<FullStoreState>, 'fetchOne/cached');
+            if (isFresh(cached)) {
+              settleFromCache('fetchOne');
+              return;
             }
-            const data: ApiResponse = await apiClient.get<ApiResponse>(`${endpoint}/`, params);
-            set({
-              items: data.objects || [],
-              meta: {
-                currentPage: data.current_page || 1,
-                totalPages: data.num_pages || 1,
-                totalCount: data.total_count || (data.objects ? data.objects.length : 0),
-              },
-              loading: false,
-            } as Partial<FullStoreState>);
+          }
+          const controller = startRequest('fetchOne');
+          beginAction('fetchOne');
+          try {
+            const data = checkEntity(await client.get<T>(url, {}, requestOptions(controller, 'fetchOne')), { method: 'get', url });
+            if (controller.signal.aborted) return;
+            writeCache(itemCache, url, data);
+            cacheEntities([data]);
+            succeedAction('fetchOne', { item: data });
           } catch (error: any) {
-            set({ error: error instanceof Error ? error : new Error(String(error)), loading: false } as Partial<FullStoreState>);
+            if (controller.signal.aborted) return;
+            failAction('fetchOne', error);
+          } finally {
+            inFlight.delete(controller);
           }
         };
       }
 
-      if (availableActions.includes('fetchOne')) {
-        store.fetchOne = async (id: string | number) => {
-          set({ loading: true, error: null } as Partial<FullStoreState>);
+      // The entity with the given id as currently loaded in `items` or `item`
+      const findLoaded = (id: string | number): T | null => {
+        const { items, item } = get();
+        return items.find(existing => existing.id === id) || (item?.id === id ? item : null);
+      };
+
+      // Replace the entity with the given id in `items` and `item`
+      const replaceEntity = (id: string | number, entity: T, label: string) => {
+        setState(state => ({
+          items: state.items.map(existing => (existing.id === id ? entity : existing)),
+          item: state.item?.id === id ? entity : state.item,
+        }) as Partial<FullStoreState>, label);
+      };
+
+      // Optimistic changes return a function that rolls them back
+
+      const applyOptimisticCreate = (tempId: string, payload: Partial<T>) => {
+        setState(state => ({
+          items: [...state.items, { ...payload, id: tempId } as T],
+          meta: { ...state.meta, totalCount: state.meta.totalCount + 1 },
+        }) as Partial<FullStoreState>, 'create/optimistic');
+        return () => setState(state => ({
+          items: state.items.filter(existing => existing.id !== tempId),
+          meta: { ...state.meta, totalCount: Math.max(0, state.meta.totalCount - 1) },
+        }) as Partial<FullStoreState>, 'create/rollback');
+      };
+
+      const applyOptimisticUpdate = (id: string | number, payload: Partial<T>) => {
+        const { items, item } = get();
+        const previous = items.find(existing => existing.id === id);
+        const previousItem = item?.id === id ? item : null;
+        setState(state => ({
+          items: state.items.map(existing => (existing.id === id ? { ...existing, ...payload } : existing)),
+          item: state.item?.id === id ? { ...state.item, ...payload } : state.item,
+        }) as Partial<FullStoreState>, 'update/optimistic');
+        return () => setState(state => ({
+          items: previous
+            ? state.items.map(existing => (existing.id === id ? previous : existing))
+            : state.items,
+          item: previousItem && state.item?.id === id ? previousItem : state.item,
+        }) as Partial<FullStoreState>, 'update/rollback');
+      };
+
+      const applyOptimisticRemove = (id: string | number) => {
+        const { items, item } = get();
+        const index = items.findIndex(existing => existing.id === id);
+        const previous = index === -1 ? undefined : items[index];
+        const previousItem = item?.id === id ? item : null;
+        setState(state => ({
+          items: state.items.filter(existing => existing.id !== id),
+          item: state.item?.id === id ? null : state.item,
+          meta: previous ? { ...state.meta, totalCount: Math.max(0, state.meta.totalCount - 1) } : state.meta,
+        }) as Partial<FullStoreState>, 'remove/optimistic');
+        return () => setState(state => {
+          // Put the entity back where it was, unless something else re-added it meanwhile
+          const restored = previous && !state.items.some(existing => existing.id === id)
+            ? [...state.items.slice(0, index), previous, ...state.items.slice(index)]
+            : state.items;
+          return {
+            items: restored,
+            item: previousItem && state.item === null ? previousItem : state.item,
+            meta: restored !== state.items ? { ...state.meta, totalCount: state.meta.totalCount + 1 } : state.meta,
+          } as Partial<FullStoreState>;
+        }, 'remove/rollback');
+      };
+
+      const isOptimistic = (mutationOptions?: MutationOptions): boolean =>
+        mutationOptions?.optimistic ?? options?.optimistic ?? false;
+
+      const refetchStrategy: RefetchStrategy = options?.refetchStrategy || 'refetch';
+
+      // Refresh the list after a successful mutation according to the refetch strategy
+      const refreshList = async () => {
+        markAllStale(); // Cached results may no longer match the server
+        // Refetch list if fetchAll is available, keeping the current page, filters and sort.
+        // The cache is skipped: its pre-mutation list would briefly undo the change in `items`.
+        if (refetchStrategy === 'refetch' && availableActions.includes('fetchAll')) {
+          await runFetchAll(get().lastParams, false);
+        }
+      };
+
+      // 'merge' strategy helpers, keeping meta.totalCount in sync
+
+      const mergeCreated = (entity: T, label: string) => {
+        setState(state => (state.items.some(existing => existing.id === entity.id) ? {} : {
+          items: [...state.items, entity],
+          meta: { ...state.meta, totalCount: state.meta.totalCount + 1 },
+        }) as Partial<FullStoreState>, label);
+      };
+
+      const mergeRemoved = (id: string | number, label: string) => {
+        setState(state => (!state.items.some(existing => existing.id === id) && state.item?.id !== id ? {} : {
+          items: state.items.filter(existing => existing.id !== id),
+          item: state.item?.id === id ? null : state.item,
+          meta: state.items.some(existing => existing.id === id)
+            ? { ...state.meta, totalCount: Math.max(0, state.meta.totalCount - 1) }
+            : state.meta,
+        }) as Partial<FullStoreState>, label);
+      };
+
+      // Offline mode: mutations made while offline are applied locally and queued in storage,
+      // then replayed in order once connectivity returns
+      const offline = options?.offline;
+      const connectivity = offline?.connectivity || browserConnectivity;
+      const queueStorage = offline?.storage || getDefaultStorage();
+      // Scoped stores queue under their own keys, like persisted state
+      const queueKey = offline && options?.pathParams ? getQueryKey(offline.key, options.pathParams) : offline?.key;
+
+      const isOffline = () => Boolean(offline) && !connectivity.isOnline();
+
+      const setQueue = (update: (queue: QueuedMutation[]) => QueuedMutation[], label: string) => {
+        const pendingMutations = update(get().pendingMutations);
+        setState({ pendingMutations } as Partial<FullStoreState>, label);
+        if (queueKey !== undefined) {
+          saveQueue(queueStorage, queueKey, pendingMutations);
+        }
+      };
+
+      // Rollbacks of the local changes of queued mutations, by mutation id. Mutations restored
+      // after a reload have none; their changes were persisted with the rest of the state.
+      const queuedRollbacks = new Map<string, () => void>();
+
+      const enqueue = (
+        action: QueuedMutation['action'],
+        entityId: string | number,
+        rollback: () => void,
+        payload?: any,
+        pathParams?: PathParams,
+      ) => {
+        const id = createMutationId();
+        queuedRollbacks.set(id, rollback);
+        beginItem(entityId, action);
+        setQueue(queue => [...queue, {
+          id,
+          action,
+          entityId,
+          payload,
+          pathParams,
+          queuedAt: Date.now(),
+        }], `${action}/queued`);
+      };
+
+      const queueCreate = (payload: Partial<T>, mutationOptions?: MutationOptions): T => {
+        const tempId = createTempId();
+        const rollback = applyOptimisticCreate(tempId, payload);
+        enqueue('create', tempId, rollback, payload, mutationOptions?.pathParams);
+        return { ...payload, id: tempId } as T;
+      };
+
+      const queueUpdate = (id: string | number, payload: Partial<T>, mutationOptions?: MutationOptions): T | undefined => {
+        const rollback = applyOptimisticUpdate(id, payload);
+        enqueue('update', id, rollback, payload, mutationOptions?.pathParams);
+        return findLoaded(id) ?? undefined;
+      };
+
+      const queueRemove = (id: string | number, mutationOptions?: MutationOptions) => {
+        const rollback = applyOptimisticRemove(id);
+        const queued = get().pendingMutations.filter(mutation => mutation.entityId === id);
+        if (queued.some(mutation => mutation.action === 'create')) {
+          // The entity never reached the server, so its queued mutations are simply dropped
+          setQueue(queue => queue.filter(mutation => mutation.entityId !== id), 'remove/queued');
+          queued.forEach(mutation => {
+            queuedRollbacks.delete(mutation.id);
+            finishItem(id, 'remove');
+          });
+          return;
+        }
+        enqueue('remove', id, rollback, undefined, mutationOptions?.pathParams);
+      };
+
+      const sendQueued = async (mutation: QueuedMutation, url: string, requestOpts: RequestOptions): Promise<T | undefined> => {
+        if (mutation.action === 'create') {
+          return checkEntity(await client.post<T>(url, mutation.payload, requestOpts), { method: 'post', url });
+        }
+        if (mutation.action === 'update') {
+          return checkEntity(await client[updateMethod]<T>(url, mutation.payload, requestOpts), { method: updateMethod, url });
+        }
+        await client.delete(url, {}, requestOpts);
+        return undefined;
+      };
+
+      // Reconcile local state with the server's response to a replayed mutation
+      const applyReplayed = (mutation: QueuedMutation, result: T | undefined) => {
+        const { action, entityId } = mutation;
+        if (action === 'remove') {
+          entityCache?.remove(entityId);
+          return;
+        }
+        if (!result || typeof result !== 'object') return;
+        const current = findLoaded(entityId);
+        replaceEntity(entityId, action === 'update' ? { ...current, ...result } : result, 'replayMutations/fulfilled');
+        cacheEntities([result]);
+        if (action === 'create' && result.id !== entityId) {
+          // Later mutations of the created entity target its server id
+          setQueue(
+            queue => queue.map(queued => (queued.entityId === entityId ? { ...queued, entityId: result.id } : queued)),
+            'replayMutations/fulfilled',
+          );
+          setState(state => ({
+            pendingIds: state.pendingIds.map(pending => (pending === entityId ? result.id : pending)),
+          }) as Partial<FullStoreState>, 'replayMutations/fulfilled');
+        }
+      };
+
+      // Undo the local change of a mutation the server rejected
+      const undoQueued = (mutation: QueuedMutation) => {
+        const rollback = queuedRollbacks.get(mutation.id);
+        queuedRollbacks.delete(mutation.id);
+        if (rollback) {
+          rollback();
+        } else if (mutation.action === 'create') {
+          // Restored after a reload: the created entity can still be found by its temporary id.
+          // Restored updates and removes are corrected by the list refresh after the replay.
+          mergeRemoved(mutation.entityId, 'create/rollback');
+        }
+      };
+
+      const dropQueued = (mutation: QueuedMutation, error: unknown) => {
+        setQueue(queue => queue.filter(queued => queued.id !== mutation.id), 'replayMutations/rejected');
+        undoQueued(mutation);
+        finishItem(mutation.entityId, 'replayMutations', error);
+        failAction(mutation.action, error);
+        const callback = isConflict(error) ? offline?.onConflict : offline?.onFailure;
+        callback?.(mutation, toError(error));
+      };
+
+      const runReplay = async () => {
+        let replayed = false;
+        while (get().pendingMutations.length > 0 && connectivity.isOnline()) {
+          const mutation = get().pendingMutations[0];
+          let url: string;
           try {
-            const data = await apiClient.get<T>(`${endpoint}/${id}/`);
-            set({ item: data, loading: false } as Partial<FullStoreState>);
-          } catch (error: any) {
-            set({ error: error instanceof Error ? error : new Error(String(error)), loading: false } as Partial<FullStoreState>);
+            url = mutation.action === 'create'
+              ? listUrl(mutation.pathParams)
+              : detailUrl(mutation.entityId, mutation.pathParams);
+          } catch (error) {
+            dropQueued(mutation, error); // Missing path params won't appear by waiting
+            continue;
           }
+          const controller = startRequest();
+          try {
+            const result = await sendQueued(mutation, url, requestOptions(controller, 'replayMutations'));
+            setQueue(queue => queue.filter(queued => queued.id !== mutation.id), 'replayMutations/fulfilled');
+            queuedRollbacks.delete(mutation.id);
+            finishItem(mutation.entityId, 'replayMutations');
+            applyReplayed(mutation, result);
+            offline?.onReplayed?.(mutation, result);
+          } catch (error) {
+            if (shouldRetryLater(error)) break; // Still unreachable; keep the queue for the next reconnect
+            dropQueued(mutation, error);
+          } finally {
+            inFlight.delete(controller);
+          }
+          replayed = true;
+        }
+        if (replayed) {
+          await refreshList();
+        }
+      };
+
+      if (offline && queueKey !== undefined) {
+        let replaying: Promise<void> | undefined;
+        store.replayMutations = () => {
+          if (!replaying) {
+            replaying = runReplay().finally(() => {
+              replaying = undefined;
+            });
+          }
+          return replaying;
         };
+
+        connectivity.subscribe(online => {
+          if (online) store.replayMutations?.();
+        });
+
+        // Restore mutations queued before a reload, ahead of any queued since
+        loadQueue(queueStorage, queueKey).then(stored => {
+          if (stored.length === 0) return;
+          const queuedSince = get().pendingMutations.filter(mutation => !stored.some(restored => restored.id === mutation.id));
+          setQueue(() => [...stored, ...queuedSince], 'replayMutations/restored');
+          setState(state => ({
+            pendingIds: [...state.pendingIds, ...stored.map(mutation => mutation.entityId)],
+          }) as Partial<FullStoreState>, 'replayMutations/restored');
+          if (connectivity.isOnline()) {
+            store.replayMutations?.();
+          }
+        });
       }
 
       if (availableActions.includes('create')) {
-        store.create = async (payload: Partial<T>) => {
-          set({ loading: true, error: null } as Partial<FullStoreState>);
+        store.create = async (payload: Partial<T>, mutationOptions?: MutationOptions) => {
+          if (isOffline()) {
+            return queueCreate(payload, mutationOptions);
+          }
+          const controller = startRequest();
+          beginAction('create');
+          const tempId = isOptimistic(mutationOptions) ? createTempId() : undefined;
+          let rollback: (() => void) | undefined;
+          if (tempId !== undefined) {
+            beginItem(tempId, 'create');
+            rollback = applyOptimisticCreate(tempId, payload);
+          }
           let createdData: T | undefined = undefined;
           try {
-            createdData = await apiClient.post<T>(`${endpoint}/`, payload);
-            set({ loading: false } as Partial<FullStoreState>);
-            // Refetch list if fetchAll is available
-            const state = get();
-            if ('fetchAll' in state && typeof state.fetchAll === 'function') {
-              await state.fetchAll();
+            const url = listUrl(mutationOptions?.pathParams);
+            createdData = checkEntity(await client.post<T>(url, payload, requestOptions(controller, 'create')), { method: 'post', url });
+            if (controller.signal.aborted) {
+              rollback?.();
+              return undefined;
+            }
+            if (tempId !== undefined) {
+              replaceEntity(tempId, createdData, 'create/fulfilled');
+              finishItem(tempId, 'create');
+            } else if (refetchStrategy === 'merge' && createdData) {
+              mergeCreated(createdData, 'create/fulfilled');
             }
+            cacheEntities([createdData]);
+            succeedAction('create');
+            await refreshList();
             return createdData;
           } catch (error: any) {
-            set({ error: error instanceof Error ? error : new Error(String(error)), loading: false } as Partial<FullStoreState>);
+            rollback?.();
+            if (tempId !== undefined) {
+              finishItem(tempId, 'create'); // The temporary item is gone, so there is no row to attach the error to
+            }
+            if (controller.signal.aborted) return undefined;
+            failAction('create', error);
             return undefined;
+          } finally {
+            inFlight.delete(controller);
           }
         };
       }
 
       if (availableActions.includes('update')) {
-        store.update = async (id: string | number, payload: Partial<T>) => {
-          set({ loading: true, error: null } as Partial<FullStoreState>);
+        store.update = async (id: string | number, changes: Partial<T>, mutationOptions?: MutationOptions) => {
+          const cached = findLoaded(id);
+          let payload = changes;
+          if (options?.diffUpdates && cached) {
+            payload = diffPayload(changes, cached);
+            if (Object.keys(payload).length === 0) {
+              return cached; // Nothing changed, so there is nothing to send
+            }
+          }
+          if (isOffline()) {
+            return queueUpdate(id, payload, mutationOptions);
+          }
+          const controller = startRequest();
+          beginAction('update');
+          beginItem(id, 'update');
+          const rollback = isOptimistic(mutationOptions) ? applyOptimisticUpdate(id, payload) : undefined;
           let updatedData: T | undefined = undefined;
           try {
-            updatedData = await apiClient.put<T>(`${endpoint}/${id}/`, payload);
-            set({ loading: false } as Partial<FullStoreState>);
-            // Refetch list if fetchAll is available
-            const state = get();
-            if ('fetchAll' in state && typeof state.fetchAll === 'function') {
-              await state.fetchAll();
+            const url = detailUrl(id, mutationOptions?.pathParams);
+            updatedData = checkEntity(
+              await client[updateMethod]<T>(url, payload, requestOptions(controller, 'update')),
+              { method: updateMethod, url },
+            );
+            if (controller.signal.aborted) {
+              rollback?.();
+              return undefined;
+            }
+            if (rollback || refetchStrategy === 'merge') {
+              // Reconcile with what the server actually stored. Some APIs respond without a body,
+              // in which case the payload is merged into the cached entity instead.
+              const current = findLoaded(id);
+              const entity = updatedData && typeof updatedData === 'object'
+                ? updatedData
+                : { ...current, ...payload } as T;
+              replaceEntity(id, entity, 'update/fulfilled');
             }
+            cacheEntities([updatedData]);
+            succeedAction('update');
+            finishItem(id, 'update');
+            await refreshList();
             return updatedData;
           } catch (error: any) {
-            set({ error: error instanceof Error ? error : new Error(String(error)), loading: false } as Partial<FullStoreState>);
+            rollback?.();
+            if (controller.signal.aborted) return undefined;
+            failAction('update', error);
+            finishItem(id, 'update', error);
             return undefined;
+          } finally {
+            inFlight.delete(controller);
           }
         };
       }
 
       if (availableActions.includes('remove')) {
-        store.remove = async (id: string | number) => {
-          set({ loading: true, error: null } as Partial<FullStoreState>);
+        store.remove = async (id: string | number, mutationOptions?: MutationOptions) => {
+          if (isOffline()) {
+            queueRemove(id, mutationOptions);
+            return;
+          }
+          const controller = startRequest();
+          beginAction('remove');
+          beginItem(id, 'remove');
+          const rollback = isOptimistic(mutationOptions) ? applyOptimisticRemove(id) : undefined;
           try {
-            await apiClient.delete(`${endpoint}/${id}/`);
-            set({ loading: false } as Partial<FullStoreState>);
-            // Refetch list if fetchAll is available
-            const state = get();
-            if ('fetchAll' in state && typeof state.fetchAll === 'function') {
-              await state.fetchAll();
+            await client.delete(detailUrl(id, mutationOptions?.pathParams), {}, requestOptions(controller, 'remove'));
+            if (controller.signal.aborted) {
+              rollback?.();
+              return;
+            }
+            if (!rollback && refetchStrategy === 'merge') {
+              mergeRemoved(id, 'remove/fulfilled');
             }
+            entityCache?.remove(id);
+            itemCache.delete(detailUrl(id, mutationOptions?.pathParams));
+            succeedAction('remove');
+            finishItem(id, 'remove');
+            await refreshList();
           } catch (error: any) {
-            set({ error: error instanceof Error ? error : new Error(String(error)), loading: false } as Partial<FullStoreState>);
+            rollback?.();
+            if (controller.signal.aborted) return;
+            failAction('remove', error);
+            finishItem(id, 'remove', error);
+          } finally {
+            inFlight.delete(controller);
           }
         };
       }
 
+      // Send a batch as one request to the bulk endpoint (all or nothing) or as individual requests,
+      // then apply what succeeded and refresh the list once
+      const runBulk = async <TInput, TValue>(
+        action: ActionType,
+        inputs: TInput[],
+        pathParams: PathParams | undefined,
+        sendBulk: (url: string, requestOptions: RequestOptions) => Promise<TValue[]>,
+        sendOne: (input: TInput, requestOptions: RequestOptions) => Promise<TValue>,
+        apply: (succeeded: TValue[]) => void,
+      ): Promise<BulkResult<TValue>> => {
+        const controller = startRequest();
+        beginAction(action);
+        const result: BulkResult<TValue> = { succeeded: [], failed: [] };
+        try {
+          if (options?.bulk?.endpoint) {
+            const url = buildUrl(options.bulk.endpoint, { ...options?.pathParams, ...pathParams }, undefined, trailingSlash);
+            result.succeeded = await sendBulk(url, requestOptions(controller, action));
+          } else {
+            const settled = await mapSettled(inputs, options?.bulk?.concurrency ?? 4,
+              input => sendOne(input, requestOptions(controller, action)));
+            settled.forEach((outcome, index) => {
+              if (outcome.ok) {
+                result.succeeded.push(outcome.value);
+              } else {
+                result.failed.push({ index, error: toError(outcome.error) });
+              }
+            });
+          }
+        } catch (error) {
+          result.failed = inputs.map((_input, index) => ({ index, error: toError(error) }));
+        } finally {
+          inFlight.delete(controller);
+        }
+        if (controller.signal.aborted) return result;
+        if (result.succeeded.length > 0) {
+          apply(result.succeeded);
+        }
+        if (result.failed.length > 0) {
+          failAction(action, result.failed[0].error);
+        } else {
+          succeedAction(action);
+        }
+        if (result.succeeded.length > 0) {
+          await refreshList();
+        }
+        return result;
+      };
+
+      // Mark the ids of a batch as pending, and attach each failure to its id afterwards
+      const trackBulkItems = async <TValue>(
+        action: ActionType,
+        ids: Array<string | number>,
+        run: () => Promise<BulkResult<TValue>>,
+      ) => {
+        ids.forEach(id => beginItem(id, action));
+        const result = await run();
+        const errors = result.failed.reduce((byIndex, { index, error }) => ({ ...byIndex, [index]: error }), {} as Record<number, Error>);
+        ids.forEach((id, index) => finishItem(id, action, errors[index]));
+        return result;
+      };
+
+      // Entities of a bulk response. When it doesn't list one per input (e.g. a 204 or a `{ created: 2 }`
+      // summary), the request still succeeded for every input, so the sent inputs stand in for them.
+      const toEntities = (data: any, context: ValidationContext, sent: Array<Partial<T>>): T[] =>
+        (Array.isArray(data) && data.length === sent.length
+          ? data.map((entity, index) => checkEntity(entity, { ...context, path: `[${index}]` }))
+          : sent as T[]);
+
+      if (availableActions.includes('createMany')) {
+        store.createMany = (payloads: Partial<T>[], mutationOptions?: MutationOptions) => runBulk<Partial<T>, T>(
+          'createMany',
+          payloads,
+          mutationOptions?.pathParams,
+          async (url, requestOpts) => toEntities(await client.post(url, payloads, requestOpts), { method: 'post', url }, payloads),
+          async (payload, requestOpts) => {
+            const url = listUrl(mutationOptions?.pathParams);
+            return checkEntity(await client.post<T>(url, payload, requestOpts), { method: 'post', url });
+          },
+          (created) => {
+            // Payloads standing in for unlisted entities have no id yet; the list refresh brings them in
+            const identified = created.filter(entity => entity.id !== undefined && entity.id !== null);
+            if (refetchStrategy === 'merge') {
+              identified.forEach(entity => mergeCreated(entity, 'createMany/fulfilled'));
+            }
+            cacheEntities(identified);
+          },
+        );
+      }
+
+      if (availableActions.includes('updateMany')) {
+        store.updateMany = (updates: Array<Partial<T> & { id: string | number }>, mutationOptions?: MutationOptions) =>
+          trackBulkItems('updateMany', updates.map(update => update.id), () => runBulk<Partial<T> & { id: string | number }, T>(
+            'updateMany',
+            updates,
+            mutationOptions?.pathParams,
+            async (url, requestOpts) => toEntities(
+              await client[updateMethod](url, updates, requestOpts),
+              { method: updateMethod, url },
+              updates,
+            ),
+            async ({ id, ...changes }, requestOpts) => {
+              const url = detailUrl(id, mutationOptions?.pathParams);
+              const data = checkEntity(await client[updateMethod]<T>(url, changes, requestOpts), { method: updateMethod, url });
+              // Fall back to the sent fields when the API responds without a body
+              return data && typeof data === 'object' ? data : { ...changes, id } as unknown as T;
+            },
+            (updated) => {
+              if (refetchStrategy === 'merge') {
+                updated.forEach(entity => {
+                  const current = findLoaded(entity.id);
+                  replaceEntity(entity.id, { ...current, ...entity }, 'updateMany/fulfilled');
+                });
+              }
+              cacheEntities(updated);
+            },
+          ));
+      }
+
+      if (availableActions.includes('removeMany')) {
+        store.removeMany = (ids: Array<string | number>, mutationOptions?: MutationOptions) =>
+          trackBulkItems('removeMany', ids, () => runBulk<string | number, string | number>(
+            'removeMany',
+            ids,
+            mutationOptions?.pathParams,
+            async (url, requestOpts) => {
+              await client.request({ method: 'delete', url, data: { ids }, options: requestOpts });
+              return ids;
+            },
+            async (id, requestOpts) => {
+              await client.delete(detailUrl(id, mutationOptions?.pathParams), {}, requestOpts);
+              return id;
+            },
+            (removed) => {
+              removed.forEach(id => {
+                if (refetchStrategy === 'merge') {
+                  mergeRemoved(id, 'removeMany/fulfilled');
+                }
+                entityCache?.remove(id);
+                itemCache.delete(detailUrl(id, mutationOptions?.pathParams));
+              });
+            },
+          ));
+      }
+
+      // Merge the result of a custom action into the store as its config describes
+      const applyCustomResult = (name: string, merge: CustomActionConfig['merge'], result: any) => {
+        const label = `${name}/fulfilled`;
+        if (merge === 'item' || merge === 'items') {
+          const entities = (Array.isArray(result) ? result : [result])
+            .filter((entity): entity is T => Boolean(entity) && typeof entity === 'object' && 'id' in entity);
+          entities.forEach(entity => {
+            if (get().items.some(existing => existing.id === entity.id)) {
+              replaceEntity(entity.id, entity, label);
+            } else if (merge === 'items') {
+              mergeCreated(entity, label);
+            }
+          });
+          if (merge === 'item' && entities.length > 0) {
+            setState({ item: entities[0] } as Partial<FullStoreState>, label);
+          }
+          cacheEntities(entities);
+        } else if (merge && typeof merge === 'object') {
+          setState({ [merge.key]: result } as Partial<FullStoreState>, label);
+        }
+      };
+
+      const runCustomAction = async (name: string, config: CustomActionConfig, call: CustomActionCall = {}) => {
+        const method = (config.method || 'post').toLowerCase() as Method;
+        const controller = startRequest();
+        beginAction(name);
+        if (call.id !== undefined) {
+          beginItem(call.id, name);
+        }
+        try {
+          const url = buildUrl(
+            getCustomActionTemplate(endpoint, config.path),
+            { ...options?.pathParams, ...call.pathParams, ...(call.id !== undefined && { id: call.id }) },
+            undefined,
+            trailingSlash,
+          );
+          const body = config.body ? config.body(call.data) : call.data;
+          // Like the client helpers, methods without a body send the data as query params
+          const sendsBody = !['get', 'delete', 'head', 'options'].includes(method);
+          const params = call.params ?? (sendsBody ? undefined : body);
+          const data = await client.request({
+            method,
+            url,
+            ...(params !== undefined && { params }),
+            ...(sendsBody && body !== undefined && { data: body }),
+            options: requestOptions(controller, name),
+          });
+          if (controller.signal.aborted) return undefined;
+          const result = config.transform ? config.transform(data) : data;
+          applyCustomResult(name, config.merge, result);
+          if (method !== 'get') {
+            markAllStale(); // Anything but a GET may have changed what cached fetches returned
+          }
+          succeedAction(name);
+          if (call.id !== undefined) {
+            finishItem(call.id, name);
+          }
+          if (config.refresh) {
+            await refreshList();
+          }
+          return result;
+        } catch (error: any) {
+          if (controller.signal.aborted) return undefined;
+          failAction(name, error);
+          if (call.id !== undefined) {
+            finishItem(call.id, name, error);
+          }
+          return undefined;
+        } finally {
+          inFlight.delete(controller);
+        }
+      };
+
+      const customActions = Object.keys(customConfigs).reduce((actions, name) => {
+        if (name in store) {
+          throw new ApiError(`Custom action "${name}" clashes with a built-in store member`, { kind: 'setup' });
+        }
+        const config = customConfigs[name];
+        return {
+          ...actions,
+          [name]: (call?: CustomActionCall) => runCustomAction(name, config, call),
+          // Results stored under a key start out empty
+          ...(config.merge && typeof config.merge === 'object' && { [config.merge.key]: null }),
+        };
+      }, {} as Record<string, any>);
+
+      store.dehydrate = () => {
+        const state = get();
+        return {
+          state: pickPersisted(state, persistFields) as DehydratedState<T>['state'],
+          fetchedAt: { fetchAll: state.status.fetchAll.lastFetchedAt, fetchOne: state.status.fetchOne.lastFetchedAt },
+        };
+      };
+
+      // Hydrated results count as fetched when they were dehydrated: within staleTime they are
+      // served without a request, after that they are shown while fetchAll/fetchOne revalidate them
+      store.hydrate = (snapshot: DehydratedState<T>) => {
+        const restored = pickPersisted(snapshot.state, persistFields) as Partial<GenericState<T>>;
+        // Only what the snapshot holds counts as fetched, e.g. not `item` when `fields` leaves it out
+        const listFetchedAt = 'items' in restored ? snapshot.fetchedAt.fetchAll : null;
+        const itemFetchedAt = 'item' in restored ? snapshot.fetchedAt.fetchOne : null;
+        const { items, item, meta, lastParams } = { ...get(), ...restored };
+        if (listFetchedAt !== null) {
+          const queryKey = queryKeyFor(lastParams);
+          listCache.set(queryKey, { data: { items, meta }, fetchedAt: listFetchedAt, stale: false });
+          entityCache?.setQuery(queryKey, items.map(entity => entity.id));
+        }
+        if (item && itemFetchedAt !== null) {
+          try {
+            itemCache.set(detailUrl(item.id), { data: item, fetchedAt: itemFetchedAt, stale: false });
+          } catch {
+            // The item's URL needs path params this store doesn't have; it is fetched again instead
+          }
+        }
+        setState(state => ({
+          ...restored,
+          ...(listFetchedAt !== null && setPageBounds(meta, meta)),
+          status: {
+            ...state.status,
+            fetchAll: { ...state.status.fetchAll, lastFetchedAt: listFetchedAt ?? state.status.fetchAll.lastFetchedAt },
+            fetchOne: { ...state.status.fetchOne, lastFetchedAt: itemFetchedAt ?? state.status.fetchOne.lastFetchedAt },
+          },
+        }) as Partial<FullStoreState>, 'hydrate');
+        cacheEntities(item ? [...items, item] : items);
+      };
+
+      // Rehydrated data is shown right away but cached as stale, so the next fetchAll revalidates it
+      handleRehydrated = () => {
+        const { items, item, meta, lastParams, status } = get();
+        // A list fetched before the storage was read is already cached as fresh
+        if (items.length > 0 && status.fetchAll.lastFetchedAt === null) {
+          listCache.set(queryKeyFor(lastParams), { data: { items, meta }, fetchedAt: Date.now(), stale: true });
+          setState(setPageBounds(meta, meta) as Partial<FullStoreState>, 'persist/rehydrated');
+        }
+        cacheEntities(item ? [...items, item] : items);
+      };
+
       return {
         ...store as unknown as FullStoreState,
+        ...customActions,
         // === Add custom state/actions here ===
         ...(options?.extendStore ? options.extendStore(set, get) : defaultExtend(set, get)),
       };
-    });
+    };
+
+    const persisted: StateCreator<FullStoreState> = persistOptions
+      ? persist(initializer as StateCreator<FullStoreState, [['zustand/persist', unknown]]>, {
+        // Scoped stores of the same endpoint are persisted separately
+        name: options?.pathParams ? getQueryKey(persistOptions.key, options.pathParams) : persistOptions.key,
+        storage: createJSONStorage(() => persistOptions.storage || getDefaultStorage()),
+        version: persistOptions.version ?? 0,
+        partialize: state => pickPersisted(state, persistFields),
+        migrate: (persisted, version) =>
+          migratePersisted(persisted, version, persistOptions.version ?? 0, persistOptions.migrations),
+        // Only restore persistable fields, whatever the storage or a migration returned. Async storage
+        // can be read after the store has fetched; the list or item it fetched is newer than the stored one.
+        merge: (persisted, current) => ({
+          ...current,
+          ...pickPersisted(persisted || {}, persistFields.filter(field => (field === 'item'
+            ? current.status.fetchOne.lastFetchedAt
+            : current.status.fetchAll.lastFetchedAt) === null)),
+        }),
+        onRehydrateStorage: () => (_state, error) => {
+          if (!error) handleRehydrated?.();
+        },
+      }) as StateCreator<FullStoreState>
+      : initializer;
+    // Devtools wraps persist so it also records the labelled sets of rehydration
+    return options?.devtools
+      ? createStore<FullStoreState>()(devtools(persisted as StateCreator<FullStoreState, [['zustand/devtools', never]]>, {
+        name: storeName,
+        enabled: devtoolsOptions.enabled,
+      }))
+      : createStore<FullStoreState>(persisted);
+};
+
+// Add scope() and createInstance() to a store, building the related stores with `factory`
+const withInstances = <TStore extends object, TOptions extends { pathParams?: PathParams }>(
+  store: TStore,
+  endpoint: string,
+  options: TOptions | undefined,
+  factory: (options: TOptions) => any,
+) => {
+  // Scoped stores are kept so components asking for the same scope share state
+  const scopes = new Map<string, unknown>();
+  return Object.assign(store, {
+    scope: (pathParams: PathParams) => {
+      const mergedParams = { ...options?.pathParams, ...pathParams };
+      const key = getQueryKey(endpoint, mergedParams);
+      if (!scopes.has(key)) {
+        scopes.set(key, factory({ ...options, pathParams: mergedParams } as TOptions));
+      }
+      return scopes.get(key);
+    },
+    createInstance: (overrides?: Partial<TOptions>) => factory({ ...options, ...overrides } as TOptions),
+  });
+};
+
+export const createGenericStore = <
+    T extends { id: string | number },
+    TExtension extends Record<string, any> = Record<string, never>, // Default to empty object if no extension
+    TCustom extends CustomActionConfigs = Record<never, never>
+>(
+  endpoint: string,
+  options?: GenericStoreOptions<T, TExtension, TCustom>
+): CreateGenericStoreReturn<T, TExtension, TCustom> => {
+    const api = createStoreApi<T, TExtension, TCustom>(endpoint, options);
+    // Like zustand's create(): a hook reading the store, with the store API attached
+    const useBoundStore = ((selector?: (state: StoreState<T, TExtension, TCustom>) => unknown) =>
+      useStore(api, selector as any)) as UseBoundStore<StoreApi<StoreState<T, TExtension, TCustom>>>;
+    return withInstances(Object.assign(useBoundStore, api), endpoint, options, instanceOptions =>
+      createGenericStore<T, TExtension, TCustom>(endpoint, instanceOptions)) as CreateGenericStoreReturn<T, TExtension, TCustom>;
 };
+
+// Create the same store as createGenericStore, without the React hook: for server code, tests or other frameworks
+export const createVanillaGenericStore = <
+    T extends { id: string | number },
+    TExtension extends Record<string, any> = Record<string, never>,
+    TCustom extends CustomActionConfigs = Record<never, never>
+>(
+  endpoint: string,
+  options?: GenericStoreOptions<T, TExtension, TCustom>
+): VanillaGenericStore<T, TExtension, TCustom> =>
+  withInstances(createStoreApi<T, TExtension, TCustom>(endpoint, options), endpoint, options, instanceOptions =>
+    createVanillaGenericStore<T, TExtension, TCustom>(endpoint, instanceOptions)) as VanillaGenericStore<T, TExtension, TCustom>;